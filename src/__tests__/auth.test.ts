@@ -0,0 +1,87 @@
+// File: src/__tests__/auth.test.ts
+import { ApiClient } from '@/lib/apiClient';
+import { StaticCredentialsProvider, buildL2Signature, createL2Headers, requiresL2Auth } from '@/lib/auth';
+import type { ApiError } from '@/lib/errors';
+import { stubServer } from '@/test-utils';
+
+// base64url of the bytes 0..31
+const SECRET = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+
+const credentials = {
+  apiKey: '00000000-0000-0000-0000-000000000001',
+  secret: SECRET,
+  passphrase: 'test-passphrase',
+  address: '0x0000000000000000000000000000000000000001',
+};
+
+describe('L2 signing', () => {
+  it('matches fixed HMAC-SHA256 vectors', () => {
+    expect(buildL2Signature(SECRET, 1000000, 'GET', '/data/orders'))
+      .toBe('1T6JvlIKwKjAC4ZRdyg9-9os_Govl3xuB_mRMbpT6tA=');
+    expect(buildL2Signature(SECRET, 1700000000, 'DELETE', '/order', '{"orderID":"0xabc"}'))
+      .toBe('R6Zjd0XmcT575-SA5KWD9BUc-qkFqvudAxkHd3R1vpw=');
+    // A secret using the URL-safe alphabet
+    expect(buildL2Signature('-__--__--__--__--__--__--__--__--__--__--__-', 1700000000, 'POST', '/order', '{"order":{"salt":1}}'))
+      .toBe('FUsC5csBCn1Vtm9aVuyl3WAW_dWDbr7VOWotpPAMS2A=');
+  });
+
+  it('builds the POLY_* headers', () => {
+    expect(createL2Headers(credentials, { method: 'get', path: '/data/orders', timestamp: 1000000 })).toEqual({
+      POLY_ADDRESS: credentials.address,
+      POLY_SIGNATURE: '1T6JvlIKwKjAC4ZRdyg9-9os_Govl3xuB_mRMbpT6tA=',
+      POLY_TIMESTAMP: '1000000',
+      POLY_API_KEY: credentials.apiKey,
+      POLY_PASSPHRASE: credentials.passphrase,
+    });
+  });
+
+  it('knows which routes are authenticated', () => {
+    expect(requiresL2Auth('get', '/data/orders?market=0xabc')).toBe(true);
+    expect(requiresL2Auth('DELETE', 'https://clob.polymarket.com/cancel-all')).toBe(true);
+    expect(requiresL2Auth('get', '/data/order/0x123')).toBe(true);
+    expect(requiresL2Auth('get', '/book?token_id=1')).toBe(false);
+    // Creating keys is signed by the wallet instead
+    expect(requiresL2Auth('post', '/auth/api-key')).toBe(false);
+  });
+});
+
+describe('ApiClient L2 authentication', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1700000000000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('signs authenticated routes over the body as sent', async () => {
+    const { adapter, received } = stubServer(() => []);
+    const client = new ApiClient({ credentials: new StaticCredentialsProvider(credentials) });
+
+    await client.delete('/order', undefined, { adapter, data: { orderID: '0xabc' } });
+    await client.get('/book?token_id=1', undefined, { adapter });
+
+    expect(received[0].data).toBe('{"orderID":"0xabc"}');
+    expect(received[0].headers.get('POLY_SIGNATURE')).toBe('R6Zjd0XmcT575-SA5KWD9BUc-qkFqvudAxkHd3R1vpw=');
+    expect(received[0].headers.get('POLY_TIMESTAMP')).toBe('1700000000');
+    expect(received[1].headers.get('POLY_SIGNATURE')).toBeUndefined();
+  });
+
+  it('names the missing credential instead of sending the request', async () => {
+    const { adapter, received } = stubServer(() => []);
+    const client = new ApiClient({
+      credentials: new StaticCredentialsProvider({ ...credentials, passphrase: '' }),
+    });
+
+    const error = await client.get('/data/orders', undefined, { adapter }).then(
+      () => {
+        throw new Error('Expected the request to fail');
+      },
+      (e: ApiError) => e
+    );
+    expect(error.code).toBe('UNAUTHORIZED');
+    expect(error.message).toContain('passphrase');
+    expect(error.details?.missingCredentials).toEqual(['passphrase']);
+    expect(received).toHaveLength(0);
+  });
+});
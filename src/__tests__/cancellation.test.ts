@@ -0,0 +1,99 @@
+// File: src/__tests__/cancellation.test.ts
+import { CanceledError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { failure } from '@/test-utils';
+
+// Adapter holding every request until the test answers it or its signal aborts
+const pendingAdapter = () => {
+  const pending: Array<{ config: InternalAxiosRequestConfig; respond: () => void; aborted: boolean }> = [];
+  const adapter: AxiosAdapter = (config) => new Promise<AxiosResponse>((resolve, reject) => {
+    const entry = {
+      config,
+      aborted: false,
+      respond: () => resolve({ data: { url: config.url }, status: 200, statusText: 'OK', headers: {}, config }),
+    };
+    pending.push(entry);
+    const signal = config.signal as AbortSignal | undefined;
+    signal?.addEventListener('abort', () => {
+      entry.aborted = true;
+      reject(new CanceledError(undefined, undefined, config));
+    });
+  });
+  return { adapter, pending };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ApiClient cancellation', () => {
+  it('rejects an aborted request with CANCELLED and passes the timeout override', async () => {
+    const { adapter, pending } = pendingAdapter();
+    const client = new ApiClient();
+    const controller = new AbortController();
+
+    const result = failure(client.post('/books', {}, undefined, { adapter, signal: controller.signal, timeout: 2500 }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(pending[0].config.timeout).toBe(2500);
+
+    controller.abort();
+    const error = await result;
+    expect(error.code).toBe('CANCELLED');
+    expect(error.retryable).toBe(false);
+
+    // Already aborted signals fail before anything is sent
+    await expect(client.get('/book', undefined, { adapter, signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(pending).toHaveLength(1);
+  });
+
+  it('frees the rate limit slot of a request aborted while queued', async () => {
+    const { adapter, pending } = pendingAdapter();
+    const client = new ApiClient({ rateLimits: { book: { maxRequests: 1, windowMs: 1000 } } });
+    const controller = new AbortController();
+
+    client.get('/book?token_id=1', undefined, { adapter });
+    const queued = failure(client.get('/book?token_id=2', undefined, { adapter, signal: controller.signal }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(client.getRateLimitInfo('book').queued).toBe(1);
+
+    controller.abort();
+    expect((await queued).code).toBe('CANCELLED');
+    expect(client.getRateLimitInfo('book').queued).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(pending.map(entry => entry.config.url)).toEqual(['/book?token_id=1']);
+  });
+
+  it('aborts a shared GET only when every caller has cancelled', async () => {
+    const { adapter, pending } = pendingAdapter();
+    const client = new ApiClient();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = failure(client.get('/book?token_id=1', undefined, { adapter, signal: first.signal }));
+    const secondResult = client.get('/book?token_id=1', undefined, { adapter, signal: second.signal });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(pending).toHaveLength(1);
+
+    first.abort();
+    expect((await firstResult).code).toBe('CANCELLED');
+    expect(pending[0].aborted).toBe(false);
+
+    pending[0].respond();
+    expect(await secondResult).toEqual({ url: '/book?token_id=1' });
+
+    const third = new AbortController();
+    const thirdResult = failure(client.get('/book?token_id=1', undefined, { adapter, signal: third.signal }));
+    await jest.advanceTimersByTimeAsync(0);
+    third.abort();
+    expect((await thirdResult).code).toBe('CANCELLED');
+    expect(pending[1].aborted).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+// File: src/__tests__/circuitBreaker.test.ts
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { CircuitBreaker } from '@/lib/circuitBreaker';
+import { ApiError } from '@/lib/errors';
+import type { CircuitBreakerStatus } from '@/types/api';
+
+// Adapter failing with 503 until `healthy` is set
+const flakyAdapter = () => {
+  const state = { healthy: false, sent: 0 };
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    state.sent++;
+    const status = state.healthy ? 200 : 503;
+    const response: AxiosResponse = { data: {}, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  return { adapter, state };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and probes after the interval', () => {
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker(
+      'book',
+      { failureThreshold: 2, probeIntervalMs: 1000, halfOpenProbes: 1 },
+      status => changes.push(status.state)
+    );
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    // Only one probe at a time
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.recordFailure();
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', nextProbeAt: Date.now() + 1000 });
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(changes).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+  });
+});
+
+describe('ApiClient circuit breaker', () => {
+  it('fails fast while open and recovers through a probe', async () => {
+    const { adapter, state } = flakyAdapter();
+    const client = new ApiClient({
+      retryAttempts: 0,
+      circuitBreaker: { failureThreshold: 3, probeIntervalMs: 5000 },
+    });
+    const changes: CircuitBreakerStatus[] = [];
+    client.on('circuit', status => changes.push(status));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.get('/book?token_id=1', undefined, { adapter })).rejects.toBeInstanceOf(ApiError);
+    }
+    expect(changes.map(status => [status.key, status.state])).toEqual([['book', 'open']]);
+    expect(client.isHealthy()).toBe(false);
+
+    const rejected = await client.get('/book?token_id=1', undefined, { adapter }).catch((error: ApiError) => error);
+    expect(rejected).toMatchObject({ code: 'SERVICE_UNAVAILABLE', details: { circuit: 'book' } });
+    expect(state.sent).toBe(3);
+
+    // Other endpoint groups are unaffected
+    state.healthy = true;
+    await client.get('/markets/0xabc', undefined, { adapter });
+
+    jest.advanceTimersByTime(5000);
+    await client.get('/book?token_id=1', undefined, { adapter });
+    expect(changes.map(status => status.state)).toEqual(['open', 'half-open', 'closed']);
+    expect(client.isHealthy()).toBe(true);
+  });
+
+  it('stops retrying once the breaker opens', async () => {
+    const { adapter, state } = flakyAdapter();
+    const client = new ApiClient({
+      retryAttempts: 5,
+      retryDelay: 10,
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    const result = client.get('/midpoint?token_id=1', undefined, { adapter }).catch((error: ApiError) => error);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toMatchObject({ code: 'SERVICE_UNAVAILABLE', status: 503 });
+    expect(state.sent).toBe(2);
+  });
+});
@@ -0,0 +1,169 @@
+// File: src/__tests__/credentials.test.ts
+import axios from 'axios';
+import type { AxiosAdapter } from 'axios';
+import { webcrypto } from 'crypto';
+
+import { PolymarketClient } from '@/lib/polymarket';
+import { buildClobAuthTypedData } from '@/lib/auth';
+import type { TypedData, WalletSigner } from '@/lib/auth';
+import { EncryptedLocalStorageCredentialStore, MemoryCredentialStore } from '@/lib/credentialStore';
+import { ApiEnvironmentManager, API_ENVIRONMENTS } from '@/lib/environment';
+import { failure, reply, routes, stubServer } from '@/test-utils';
+
+const ADDRESS = '0x0000000000000000000000000000000000000001';
+
+const credentials = {
+  apiKey: '00000000-0000-0000-0000-000000000001',
+  secret: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+  passphrase: 'test-passphrase',
+  address: ADDRESS,
+};
+
+// Wallet that records what it is asked to sign
+const fakeSigner = () => {
+  const signed: TypedData[] = [];
+  const signer: WalletSigner = {
+    getAddress: async () => ADDRESS,
+    signTypedData: async (data) => {
+      signed.push(data);
+      return '0xsignature';
+    },
+  };
+  return { signer, signed };
+};
+
+const defaultAdapter = axios.defaults.adapter;
+
+const clientWith = (adapter: AxiosAdapter) => {
+  axios.defaults.adapter = adapter;
+  return new PolymarketClient(new ApiEnvironmentManager(API_ENVIRONMENTS.staging));
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  axios.defaults.adapter = defaultAdapter;
+  localStorage.clear();
+});
+
+describe('API key lifecycle', () => {
+  const creds = { apiKey: credentials.apiKey, secret: credentials.secret, passphrase: credentials.passphrase };
+
+  it('creates credentials with headers signed by the wallet', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    const { adapter, received } = stubServer(routes({ 'POST /auth/api-key': creds }));
+    const { signer, signed } = fakeSigner();
+
+    await expect(clientWith(adapter).createApiKey(signer, 3)).resolves.toEqual(credentials);
+
+    // Bound to the environment's chain
+    expect(signed).toEqual([buildClobAuthTypedData(ADDRESS, 80002, 1700000000, 3)]);
+    expect(received[0].headers.get('POLY_ADDRESS')).toBe(ADDRESS);
+    expect(received[0].headers.get('POLY_SIGNATURE')).toBe('0xsignature');
+    expect(received[0].headers.get('POLY_TIMESTAMP')).toBe('1700000000');
+    expect(received[0].headers.get('POLY_NONCE')).toBe('3');
+  });
+
+  it('derives the existing key when the nonce already has one', async () => {
+    const { adapter, received } = stubServer(routes({
+      'POST /auth/api-key': reply(400, { error: 'Could not create api key' }),
+      'GET /auth/derive-api-key': creds,
+    }));
+    const { signer, signed } = fakeSigner();
+
+    await expect(clientWith(adapter).createOrDeriveApiKey(signer)).resolves.toEqual(credentials);
+    expect(received.map(config => config.method)).toEqual(['post', 'get']);
+    // One signature serves both requests
+    expect(signed).toHaveLength(1);
+  });
+
+  it('does not derive when creating fails for another reason', async () => {
+    const { adapter, received } = stubServer(routes({
+      'POST /auth/api-key': reply(401, { error: 'Invalid L1 Request headers' }),
+      'GET /auth/derive-api-key': creds,
+    }));
+
+    const error = await failure(clientWith(adapter).createOrDeriveApiKey(fakeSigner().signer));
+    expect(error.code).toBe('UNAUTHORIZED');
+    expect(received.map(config => config.method)).toEqual(['post']);
+  });
+
+  it('does not share derive requests between signers', async () => {
+    const other = '0x0000000000000000000000000000000000000002';
+    const { adapter, received } = stubServer(config => ({ ...creds, apiKey: `key-of-${config.headers.get('POLY_ADDRESS')}` }));
+    const client = clientWith(adapter);
+    const otherSigner: WalletSigner = { ...fakeSigner().signer, getAddress: async () => other };
+
+    const [mine, theirs] = await Promise.all([
+      client.deriveApiKey(fakeSigner().signer),
+      client.deriveApiKey(otherSigner),
+    ]);
+
+    expect(received).toHaveLength(2);
+    expect(mine).toMatchObject({ apiKey: `key-of-${ADDRESS}`, address: ADDRESS });
+    expect(theirs).toMatchObject({ apiKey: `key-of-${other}`, address: other });
+  });
+
+  it('rejects malformed credentials', async () => {
+    const { adapter } = stubServer(routes({ 'GET /auth/derive-api-key': { apiKey: 'key', secret: '' } }));
+
+    const error = await failure(clientWith(adapter).deriveApiKey(fakeSigner().signer));
+    expect(error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('lists and revokes keys with L2 credentials', async () => {
+    const { adapter, received } = stubServer(routes({
+      'GET /auth/api-keys': { apiKeys: [credentials.apiKey] },
+      'DELETE /auth/api-key': 'OK',
+    }));
+    const client = clientWith(adapter);
+    const store = new MemoryCredentialStore();
+    client.setCredentialsProvider(store);
+
+    expect((await failure(client.getApiKeys())).code).toBe('UNAUTHORIZED');
+
+    await store.save(credentials);
+    await expect(client.getApiKeys()).resolves.toEqual([credentials.apiKey]);
+    await client.deleteApiKey();
+    expect(received.map(config => config.headers.get('POLY_API_KEY'))).toEqual([credentials.apiKey, credentials.apiKey]);
+  });
+});
+
+describe('EncryptedLocalStorageCredentialStore', () => {
+  const newStore = () => new EncryptedLocalStorageCredentialStore({
+    iterations: 1000,
+    crypto: webcrypto as unknown as Crypto,
+  });
+
+  it('keeps credentials encrypted until unlocked with the password', async () => {
+    const store = newStore();
+    await store.unlock('correct horse');
+    await store.save(credentials);
+
+    const saved = localStorage.getItem('polymarket-credentials') ?? '';
+    expect(saved).not.toContain(credentials.secret);
+    expect(saved).not.toContain(credentials.passphrase);
+
+    const reloaded = newStore();
+    expect(reloaded.hasSavedCredentials()).toBe(true);
+    await expect(reloaded.getCredentials()).resolves.toBeNull();
+    await expect(reloaded.unlock('wrong')).rejects.toThrow('Wrong password');
+    expect(reloaded.isUnlocked()).toBe(false);
+
+    await expect(reloaded.unlock('correct horse')).resolves.toEqual(credentials);
+    await expect(reloaded.getCredentials()).resolves.toEqual(credentials);
+
+    reloaded.lock();
+    await expect(reloaded.getCredentials()).resolves.toBeNull();
+  });
+
+  it('refuses to save while locked and forgets on clear', async () => {
+    const store = newStore();
+    await expect(store.save(credentials)).rejects.toThrow('Unlock');
+
+    await store.unlock('pw');
+    await store.save(credentials);
+    await store.clear();
+    expect(store.hasSavedCredentials()).toBe(false);
+    await expect(store.getCredentials()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+// File: src/__tests__/environment.test.ts
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { API_ENVIRONMENTS, ApiEnvironmentManager, environmentFromEnv } from '@/lib/environment';
+
+// Adapter recording the effective config of every attempt
+const recordingAdapter = (status = 200, headers: Record<string, string> = {}) => {
+  const seen: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    seen.push(config);
+    const response = { data: { from: config.baseURL }, status, statusText: String(status), headers, config };
+    if (status >= 400) {
+      throw new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  return { adapter, seen };
+};
+
+describe('API environments', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('reads the environment and URL overrides from env vars', () => {
+    process.env = { ...env, NEXT_PUBLIC_POLYMARKET_ENV: 'staging' };
+    expect(environmentFromEnv()).toEqual(API_ENVIRONMENTS.staging);
+
+    process.env = { ...env, NEXT_PUBLIC_POLYMARKET_ENV: 'local', NEXT_PUBLIC_POLYMARKET_API_URL: 'http://127.0.0.1:9000' };
+    expect(environmentFromEnv()).toEqual({ ...API_ENVIRONMENTS.local, restUrl: 'http://127.0.0.1:9000' });
+
+    process.env = { ...env, NEXT_PUBLIC_POLYMARKET_ENV: undefined };
+    expect(environmentFromEnv()).toEqual(API_ENVIRONMENTS.prod);
+  });
+
+  it('notifies listeners only when the URLs change', () => {
+    const manager = new ApiEnvironmentManager(API_ENVIRONMENTS.prod);
+    const changes: string[] = [];
+    manager.onChange(environment => changes.push(environment.name));
+
+    manager.set('prod');
+    manager.set('local');
+    manager.set({ name: 'local', restUrl: 'http://localhost:3001', wsUrl: 'ws://localhost:3001/ws/' });
+
+    expect(changes).toEqual(['local', 'local']);
+    expect(manager.get().restUrl).toBe('http://localhost:3001');
+  });
+});
+
+describe('ApiClient.updateConfig', () => {
+  it('rebuilds the transport with the new base URL, timeout and headers', async () => {
+    const { adapter, seen } = recordingAdapter();
+    const client = new ApiClient({ baseUrl: 'https://clob.polymarket.com', cachePolicies: { '/markets/': { ttlMs: 60000 } } });
+
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ from: 'https://clob.polymarket.com' });
+
+    client.updateConfig({ baseUrl: 'http://localhost:8080', timeout: 1234, headers: { 'X-Env': 'local' } });
+    // Cached responses of the old server are dropped
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ from: 'http://localhost:8080' });
+    expect(seen[1].timeout).toBe(1234);
+    expect(seen[1].headers['X-Env']).toBe('local');
+  });
+
+  it('applies a new retry policy', async () => {
+    jest.useFakeTimers();
+    try {
+      const { adapter, seen } = recordingAdapter(500);
+      const client = new ApiClient({ retryAttempts: 2, retryDelay: 10 });
+      client.updateConfig({ retryAttempts: 0 });
+
+      await expect(client.get('/book', undefined, { adapter })).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+      expect(seen).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('keeps limits learned from the server across unrelated updates', async () => {
+    const { adapter } = recordingAdapter(429, { 'retry-after': '30' });
+    const client = new ApiClient({ retryAttempts: 0 });
+
+    await expect(client.get('/book', undefined, { adapter })).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    expect(client.getRateLimitInfo('book').exceeded).toBe(true);
+
+    client.updateConfig({ credentials: undefined, timeout: 5000 });
+    expect(client.getRateLimitInfo('book').exceeded).toBe(true);
+
+    client.updateConfig({ rateLimit: { maxRequests: 10, windowMs: 1000 } });
+    expect(client.getRateLimitInfo('book')).toMatchObject({ exceeded: false, limit: 10 });
+  });
+});
@@ -0,0 +1,145 @@
+// File: src/__tests__/openOrders.test.ts
+import axios from 'axios';
+import type { AxiosAdapter } from 'axios';
+import Decimal from 'decimal.js';
+
+import { StaticCredentialsProvider } from '@/lib/auth';
+import { MemoryCredentialStore } from '@/lib/credentialStore';
+import { ApiEnvironmentManager, API_ENVIRONMENTS } from '@/lib/environment';
+import { PolymarketClient } from '@/lib/polymarket';
+import { restingSizeByLevel, transformOpenOrderResponse } from '@/lib/transforms';
+import { routes, stubServer } from '@/test-utils';
+import type { OpenOrderApiResponse } from '@/types';
+
+const credentials = {
+  apiKey: '00000000-0000-0000-0000-000000000001',
+  secret: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+  passphrase: 'test-passphrase',
+  address: '0x0000000000000000000000000000000000000001',
+};
+
+const apiOrder = (overrides: Partial<OpenOrderApiResponse> = {}): OpenOrderApiResponse => ({
+  id: '0xorder1',
+  status: 'LIVE',
+  owner: credentials.apiKey,
+  maker_address: credentials.address,
+  market: '0xmarket',
+  asset_id: '1234',
+  side: 'BUY',
+  original_size: '10',
+  size_matched: '2.5',
+  price: '0.57',
+  outcome: 'Yes',
+  expiration: '0',
+  order_type: 'GTC',
+  associate_trades: null,
+  created_at: 1700000000,
+  ...overrides,
+});
+
+const defaultAdapter = axios.defaults.adapter;
+
+const clientWith = async (adapter: AxiosAdapter) => {
+  axios.defaults.adapter = adapter;
+  const client = new PolymarketClient(new ApiEnvironmentManager(API_ENVIRONMENTS.prod));
+  const store = new MemoryCredentialStore();
+  await store.save(credentials);
+  client.setCredentialsProvider(store);
+  return client;
+};
+
+afterEach(() => {
+  axios.defaults.adapter = defaultAdapter;
+});
+
+describe('transformOpenOrderResponse', () => {
+  it('normalizes sizes, status and times', () => {
+    const order = transformOpenOrderResponse(apiOrder({ expiration: '1700003600', associate_trades: ['t1'] }));
+
+    expect(order).toMatchObject({
+      side: 'buy',
+      status: 'live',
+      expiration: 1700003600000,
+      createdAt: 1700000000000,
+      associateTrades: ['t1'],
+    });
+    expect(order.price.toString()).toBe('0.57');
+    expect(order.remainingSize.toString()).toBe('7.5');
+  });
+
+  it('leaves nothing resting on finished orders', () => {
+    const order = transformOpenOrderResponse(apiOrder({ status: 'CANCELED' }));
+    expect(order.status).toBe('cancelled');
+    expect(order.expiration).toBeNull();
+    expect(order.remainingSize.isZero()).toBe(true);
+
+    expect(transformOpenOrderResponse(apiOrder({ status: 'SOMETHING_NEW' })).status).toBe('unknown');
+  });
+
+  it('sums resting size per displayed level', () => {
+    const orders = [
+      apiOrder({ id: 'a', price: '0.571', size_matched: '0' }),
+      apiOrder({ id: 'b', price: '0.579', size_matched: '0' }),
+      apiOrder({ id: 'c', side: 'SELL', price: '0.61' }),
+    ].map(transformOpenOrderResponse);
+
+    expect(restingSizeByLevel(orders, 2, 'bid')).toEqual(new Map([['0.57', new Decimal(20)]]));
+    expect([...restingSizeByLevel(orders, 2, 'ask').keys()]).toEqual(['0.61']);
+  });
+});
+
+describe('PolymarketClient open orders', () => {
+  it('filters by market and asset, following cursors to the last page', async () => {
+    const { adapter, received } = stubServer(routes({
+      'GET /data/orders?market=0xmarket&asset_id=1234': { data: [apiOrder()], next_cursor: 'MTAw' },
+      'GET /data/orders?market=0xmarket&asset_id=1234&next_cursor=MTAw': {
+        data: [apiOrder({ id: '0xorder2' })],
+        next_cursor: 'LTE=',
+      },
+    }));
+    const client = await clientWith(adapter);
+
+    const orders = await client.fetchAllOpenOrders({ market: '0xmarket', assetId: '1234' });
+
+    expect(orders.map(order => order.id)).toEqual(['0xorder1', '0xorder2']);
+    expect(received).toHaveLength(2);
+    expect(received[0].headers.get('POLY_API_KEY')).toBe(credentials.apiKey);
+  });
+
+  it('stops when the server repeats a cursor', async () => {
+    const { adapter, received } = stubServer(routes({
+      'GET /data/orders': { data: [apiOrder()], next_cursor: 'MTAw' },
+      'GET /data/orders?next_cursor=MTAw': { data: [apiOrder({ id: '0xorder2' })], next_cursor: 'MTAw' },
+    }));
+    const client = await clientWith(adapter);
+
+    const orders = await client.fetchAllOpenOrders();
+
+    expect(orders.map(order => order.id)).toEqual(['0xorder1', '0xorder2']);
+    expect(received).toHaveLength(2);
+  });
+
+  it('signs with credentials passed for the call', async () => {
+    const { adapter, received } = stubServer(routes({ 'GET /data/orders': { data: [], next_cursor: 'LTE=' } }));
+    const client = await clientWith(adapter);
+    client.setCredentialsProvider(undefined);
+    const other = { ...credentials, apiKey: '00000000-0000-0000-0000-000000000002' };
+
+    await client.fetchAllOpenOrders({}, { credentials: new StaticCredentialsProvider(other) });
+    expect(received[0].headers.get('POLY_API_KEY')).toBe(other.apiKey);
+  });
+
+  it('reports the cursor of the next page', async () => {
+    const { adapter } = stubServer(routes({
+      'GET /data/orders?next_cursor=MTAw': { data: [], next_cursor: 'LTE=' },
+      'GET /data/order/0xorder1': apiOrder({ status: 'MATCHED', size_matched: '10' }),
+    }));
+    const client = await clientWith(adapter);
+
+    await expect(client.fetchOpenOrders({ nextCursor: 'MTAw' })).resolves.toEqual({ orders: [], nextCursor: null });
+
+    const order = await client.fetchOrder('0xorder1');
+    expect(order.status).toBe('matched');
+    expect(order.sizeMatched.toString()).toBe('10');
+  });
+});
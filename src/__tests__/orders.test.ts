@@ -0,0 +1,182 @@
+// File: src/__tests__/orders.test.ts
+import type { AxiosAdapter } from 'axios';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+import { StaticCredentialsProvider } from '@/lib/auth';
+import { hashTypedData } from '@/lib/eip712';
+import { ApiEnvironmentManager, API_ENVIRONMENTS } from '@/lib/environment';
+import { OrdersClient, buildOrderTypedData, limitOrderAmounts } from '@/lib/orders';
+import { PrivateKeySigner } from '@/lib/privateKeySigner';
+import { failure, stubServer } from '@/test-utils';
+import type { PostOrderRequest } from '@/types';
+
+// Example of the EIP-712 specification, signed with keccak256("cow")
+const MAIL = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    Person: [{ name: 'name', type: 'string' }, { name: 'wallet', type: 'address' }],
+    Mail: [{ name: 'from', type: 'Person' }, { name: 'to', type: 'Person' }, { name: 'contents', type: 'string' }],
+  },
+  primaryType: 'Mail',
+  domain: { name: 'Ether Mail', version: '1', chainId: 1, verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC' },
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!',
+  },
+};
+
+const PRIVATE_KEY = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+
+const credentials = {
+  apiKey: '00000000-0000-0000-0000-000000000001',
+  secret: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+  passphrase: 'test-passphrase',
+  address: '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23',
+};
+
+const RULES = { minimumOrderSize: '5', minimumTickSize: '0.01' };
+
+// Buy of 10 shares at 0.57, with its digest and signature as computed by
+// @polymarket/order-utils 3.0.1 (ExchangeOrderBuilder with an ethers Wallet)
+const REFERENCE_ORDER = {
+  salt: 479249096354,
+  maker: credentials.address,
+  signer: credentials.address,
+  taker: '0x0000000000000000000000000000000000000000',
+  tokenId: '1234',
+  makerAmount: '5700000',
+  takerAmount: '10000000',
+  expiration: '0',
+  nonce: '0',
+  feeRateBps: '0',
+  side: 'BUY' as const,
+  signatureType: 0 as const,
+};
+const REFERENCE_DIGEST = 'ceb5640bc2893a3c565d23a58f71471c9970e6475260098244c7d81464aef21a';
+const REFERENCE_NEG_RISK_DIGEST = '0771166cf3a9d1734b496c66f2dba54c72cc64b1ee529e680c1a739692f334c3';
+const REFERENCE_AMOY_NEG_RISK_DIGEST = '4d688a3974ad58cad44303411c9bb18df74827f2798adf0089602b5f9356f7fd';
+const REFERENCE_SIGNATURE =
+  '0xeb7e91441bb7e26f6d3a044d0b4847b43935ce2042ead4ce20cd8a8091831615' +
+  '3225bbde3b35f31993edc2a1d19c6f695b1f60937ea5cec7e76e1094123badb5' +
+  '1c';
+
+const ordersClient = (adapter: AxiosAdapter, provider = new StaticCredentialsProvider(credentials)) =>
+  new OrdersClient({
+    signer: new PrivateKeySigner(PRIVATE_KEY),
+    credentials: provider,
+    environments: new ApiEnvironmentManager(API_ENVIRONMENTS.prod),
+    apiConfig: { adapter },
+  });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PrivateKeySigner', () => {
+  it('matches the EIP-712 specification example', async () => {
+    const signer = new PrivateKeySigner(bytesToHex(keccak_256(utf8ToBytes('cow'))));
+
+    expect(bytesToHex(hashTypedData(MAIL))).toBe('be609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2');
+    expect(await signer.getAddress()).toBe('0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826');
+    expect(await signer.signTypedData(MAIL)).toBe(
+      '0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d' +
+      '07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562' +
+      '1c'
+    );
+    expect(await new PrivateKeySigner(PRIVATE_KEY).getAddress()).toBe(credentials.address);
+  });
+
+  it('rejects malformed keys', () => {
+    expect(() => new PrivateKeySigner('0x1234')).toThrow('Invalid secp256k1 private key');
+    expect(() => new PrivateKeySigner('0'.repeat(64))).toThrow('Invalid secp256k1 private key');
+  });
+});
+
+describe('limit order construction', () => {
+  it('converts price and size to base-unit amounts', () => {
+    expect(limitOrderAmounts({ side: 'BUY', price: '0.57', size: '10.5' }, RULES))
+      .toEqual({ makerAmount: '5985000', takerAmount: '10500000' });
+    expect(limitOrderAmounts({ side: 'SELL', price: '0.57', size: '10.5' }, RULES))
+      .toEqual({ makerAmount: '10500000', takerAmount: '5985000' });
+  });
+
+  it.each([
+    [{ price: '0.575', size: '10' }, 'tick grid'],
+    [{ price: '1', size: '10' }, 'tick grid'],
+    [{ price: '0.5', size: '4.99' }, 'minimum order size'],
+    [{ price: '0.5', size: '10.001' }, 'decimals'],
+  ])('rejects %j', (args, message) => {
+    expect(() => limitOrderAmounts({ side: 'BUY', ...args }, RULES)).toThrow(message);
+  });
+});
+
+describe('order signing', () => {
+  it('hashes orders for the exchange contracts like the reference implementation', () => {
+    expect(bytesToHex(hashTypedData(buildOrderTypedData(REFERENCE_ORDER, 137)))).toBe(REFERENCE_DIGEST);
+    expect(bytesToHex(hashTypedData(buildOrderTypedData(REFERENCE_ORDER, 137, true)))).toBe(REFERENCE_NEG_RISK_DIGEST);
+    expect(bytesToHex(hashTypedData(buildOrderTypedData(REFERENCE_ORDER, 80002, true)))).toBe(REFERENCE_AMOY_NEG_RISK_DIGEST);
+  });
+
+  it('signs orders like the reference implementation', async () => {
+    const signature = await new PrivateKeySigner(PRIVATE_KEY).signTypedData(buildOrderTypedData(REFERENCE_ORDER, 137));
+    expect(signature).toBe(REFERENCE_SIGNATURE);
+  });
+});
+
+describe('OrdersClient', () => {
+  it('posts an order signed for the exchange with L2 headers', async () => {
+    // Salt words of REFERENCE_ORDER
+    jest.spyOn(globalThis.crypto, 'getRandomValues').mockImplementation(((array: Uint32Array) => {
+      array.set([111, 2507726498]);
+      return array;
+    }) as Crypto['getRandomValues']);
+    const { adapter, received } = stubServer(() => ({ success: true, errorMsg: '', orderID: '0xorder', status: 'live' }));
+    const client = ordersClient(adapter);
+
+    const response = await client.placeLimitOrder({ tokenId: '1234', side: 'BUY', price: '0.57', size: '10' }, RULES);
+    expect(response.orderID).toBe('0xorder');
+
+    const body = JSON.parse(received[0].data) as PostOrderRequest;
+    expect(received[0].url).toBe('/order');
+    expect(received[0].headers.get('POLY_API_KEY')).toBe(credentials.apiKey);
+    expect(body).toEqual({
+      owner: credentials.apiKey,
+      orderType: 'GTC',
+      order: { ...REFERENCE_ORDER, signature: REFERENCE_SIGNATURE },
+    });
+  });
+
+  it('refuses orders it cannot post', async () => {
+    const { adapter, received } = stubServer(() => ({}));
+    const order = await ordersClient(adapter).createOrder({ tokenId: '1', side: 'SELL', price: '0.5', size: '5' }, RULES);
+
+    expect((await failure(ordersClient(adapter).postOrder(order, 'GTD'))).code).toBe('INVALID_ORDER');
+    const withoutKey = ordersClient(adapter, new StaticCredentialsProvider(null));
+    expect((await failure(withoutKey.postOrder(order))).code).toBe('UNAUTHORIZED');
+    expect(received).toHaveLength(0);
+  });
+
+  it('cancels by ID, market and everything', async () => {
+    const { adapter, received } = stubServer(() => ({ canceled: ['0xa'], not_canceled: {} }));
+    const client = ordersClient(adapter);
+
+    await expect(client.cancelOrder('0xa')).resolves.toEqual({ canceled: ['0xa'], not_canceled: {} });
+    await client.cancelOrders(['0xa', '0xb']);
+    await client.cancelMarketOrders({ market: '0xmarket' });
+    await client.cancelAll();
+
+    expect(received.map(config => [config.method, config.url, config.data])).toEqual([
+      ['delete', '/order', '{"orderID":"0xa"}'],
+      ['delete', '/orders', '["0xa","0xb"]'],
+      ['delete', '/cancel-market-orders', '{"market":"0xmarket"}'],
+      ['delete', '/cancel-all', undefined],
+    ]);
+  });
+});
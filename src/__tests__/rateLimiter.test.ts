@@ -0,0 +1,126 @@
+// File: src/__tests__/rateLimiter.test.ts
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { RateLimiter, endpointGroupFor } from '@/lib/rateLimiter';
+
+const limits = {
+  book: { maxRequests: 2, windowMs: 1000 },
+  prices: { maxRequests: 2, windowMs: 1000 },
+  markets: { maxRequests: 2, windowMs: 1000 },
+  trades: { maxRequests: 2, windowMs: 1000 },
+  other: { maxRequests: 2, windowMs: 1000 },
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('maps request URLs to endpoint groups', () => {
+    expect(endpointGroupFor('/book?token_id=1')).toBe('book');
+    expect(endpointGroupFor('https://clob.polymarket.com/books')).toBe('book');
+    expect(endpointGroupFor('/midpoint?token_id=1')).toBe('prices');
+    expect(endpointGroupFor('/markets/0xabc')).toBe('markets');
+    expect(endpointGroupFor('/data/trades?market=0xabc')).toBe('trades');
+    expect(endpointGroupFor('/auth/api-keys')).toBe('other');
+  });
+
+  it('queues requests over the limit and releases them as tokens refill', async () => {
+    const limiter = new RateLimiter(limits);
+    const released: number[] = [];
+    [1, 2, 3, 4].forEach(id => limiter.acquire('book').then(() => released.push(id)));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(released).toEqual([1, 2]);
+    expect(limiter.getInfo('book')).toMatchObject({ remaining: 0, queued: 2 });
+    // Other groups have their own budget
+    expect(limiter.getInfo('prices')).toMatchObject({ remaining: 2, queued: 0 });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([1, 2, 3]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([1, 2, 3, 4]);
+    expect(limiter.getQueueDepth()).toBe(0);
+  });
+
+  it('holds a group until the server-reported window resets', async () => {
+    const limiter = new RateLimiter(limits);
+    limiter.update('markets', {
+      limit: 100,
+      remaining: 0,
+      resetTime: Date.now() + 5000,
+      resetIn: 5,
+      exceeded: true,
+      queued: 0,
+    });
+
+    const released = jest.fn();
+    limiter.acquire('markets').then(released);
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(released).not.toHaveBeenCalled();
+    expect(limiter.isBlocked('markets')).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(released).toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient rate limiting', () => {
+  it('throttles requests per endpoint group and reports the queue', async () => {
+    const sent: string[] = [];
+    const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+      sent.push(config.url ?? '');
+      return { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    const client = new ApiClient({ rateLimits: { book: { maxRequests: 1, windowMs: 1000 } } });
+
+    const requests = [1, 2, 3].map(id => client.get(`/book?token_id=${id}`, undefined, { adapter }));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sent).toEqual(['/book?token_id=1']);
+    expect(client.getRateLimitInfo('book').queued).toBe(2);
+    expect(client.getRateLimitInfo().queued).toBe(2);
+    // More than a full window of backlog
+    expect(client.isHealthy()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await Promise.all(requests);
+    expect(sent).toHaveLength(3);
+    expect(client.getRateLimitInfo('book').queued).toBe(0);
+    expect(client.isHealthy()).toBe(true);
+  });
+
+  it('tightens the limiter from rate limit headers', async () => {
+    const resetSeconds = Math.floor(Date.now() / 1000) + 10;
+    const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => ({
+      data: {},
+      status: 200,
+      statusText: 'OK',
+      headers: {
+        'x-ratelimit-limit': '60',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(resetSeconds),
+      },
+      config,
+    });
+    const client = new ApiClient();
+
+    await client.get('/markets', undefined, { adapter });
+    expect(client.getRateLimitInfo('markets')).toMatchObject({ limit: 60, remaining: 0, exceeded: true });
+    expect(client.isHealthy()).toBe(false);
+
+    const next = jest.fn();
+    client.get('/markets', undefined, { adapter }).then(next);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(next).not.toHaveBeenCalled();
+    expect(client.getRateLimitInfo('markets').queued).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(6000);
+    expect(next).toHaveBeenCalled();
+  });
+});
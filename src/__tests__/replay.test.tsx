@@ -0,0 +1,163 @@
+// File: src/__tests__/replay.test.tsx
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+
+import { OrderBookProvider, useOrderBook } from '@/contexts/OrderBookContext';
+import { NdjsonRecorder, framesToNdjson, parseNdjson } from '@/lib/recorder';
+import type { RecordedFrame } from '@/lib/recorder';
+import { SessionReplay } from '@/lib/replay';
+import { MarketSocketManager } from '@/lib/socketManager';
+import { OrderBookSocket } from '@/lib/websocket';
+
+const frame = (receivedAt: number, message: object): RecordedFrame => ({
+  receivedAt,
+  data: JSON.stringify(message),
+});
+
+// A short captured session: snapshot, then two deltas 1s and 3s later
+const session: RecordedFrame[] = [
+  frame(1000, {
+    event_type: 'book',
+    asset_id: 'test-asset',
+    market: 'test-market',
+    timestamp: '1672290701000',
+    hash: '',
+    buys: [{ price: '0.48', size: '100' }],
+    sells: [{ price: '0.52', size: '80' }],
+  }),
+  frame(2000, {
+    event_type: 'price_change',
+    asset_id: 'test-asset',
+    market: 'test-market',
+    price: '0.49',
+    size: '25',
+    side: 'buy',
+    timestamp: '1672290702000',
+  }),
+  frame(4000, {
+    event_type: 'price_change',
+    asset_id: 'test-asset',
+    market: 'test-market',
+    price: '0.50',
+    size: '10',
+    side: 'buy',
+    timestamp: '1672290704000',
+  }),
+];
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('session recording and replay', () => {
+  it('round-trips frames through NDJSON', () => {
+    expect(parseNdjson(framesToNdjson(session))).toEqual(session);
+    expect(() => parseNdjson('{"data":"x"}\n')).toThrow('line 1');
+  });
+
+  it('replays at N× speed and records what the socket received', async () => {
+    const replay = new SessionReplay(session, { speed: 2 });
+    const recorder = new NdjsonRecorder();
+    const onUpdate = jest.fn();
+    const socket = new OrderBookSocket('test-asset', { onUpdate }, {
+      ...replay.socketOptions,
+      verifyHashes: false,
+      recorder,
+    });
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(900);
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(replay.isFinished()).toBe(true);
+    expect(onUpdate.mock.calls[2][0].bids[0].price.toString()).toBe('0.5');
+
+    // The re-recording keeps the payloads and the (scaled) spacing
+    const recorded = parseNdjson(recorder.toNdjson());
+    expect(recorded.map(entry => entry.data)).toEqual(session.map(entry => entry.data));
+    expect(recorded[2].receivedAt - recorded[1].receivedAt).toBe(1000);
+
+    socket.close();
+  });
+
+  it('delivers frames one at a time in step mode', async () => {
+    const replay = SessionReplay.fromNdjson(framesToNdjson(session), { speed: 'step' });
+    const onUpdate = jest.fn();
+    const socket = new OrderBookSocket('test-asset', { onUpdate }, {
+      ...replay.socketOptions,
+      verifyHashes: false,
+    });
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(onUpdate).not.toHaveBeenCalled();
+
+    expect(replay.step()).toBe(1);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(replay.step(5)).toBe(2);
+    expect(replay.getPosition()).toBe(3);
+
+    socket.close();
+  });
+
+  it('drives OrderBookProvider like a live feed', async () => {
+    const replay = new SessionReplay(session, { speed: 'step' });
+    const feed = new MarketSocketManager({
+      ...replay.socketOptions,
+      verifyHashes: false,
+    });
+    const Probe: React.FC = () => {
+      const { status, book } = useOrderBook();
+      return (
+        <>
+          <div data-testid="status">{status}</div>
+          <div data-testid="bids">{book?.bids.map(bid => bid.price.toString()).join(' ') ?? 'none'}</div>
+        </>
+      );
+    };
+
+    const { unmount } = render(
+      <OrderBookProvider marketId="test-asset" feed={feed} initialSnapshot={false}>
+        <Probe />
+      </OrderBookProvider>
+    );
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(0);
+    });
+    expect(screen.getByTestId('status')).toHaveTextContent('connected');
+    expect(screen.getByTestId('bids')).toHaveTextContent('none');
+
+    act(() => {
+      replay.step(2);
+    });
+    expect(screen.getByTestId('bids')).toHaveTextContent('0.49 0.48');
+
+    unmount();
+    feed.close();
+  });
+
+  it('never fetches snapshots over the network', async () => {
+    const replay = new SessionReplay(session, { speed: 'step' });
+    await expect(replay.socketOptions.fetchSnapshot('test-asset')).rejects.toThrow('not available');
+    expect(replay.socketOptions.pollingFallback).toBe(false);
+  });
+
+  it('rejects speeds that are not positive', () => {
+    expect(() => new SessionReplay(session, { speed: -1 })).toThrow('Invalid replay speed');
+
+    const replay = new SessionReplay(session);
+    expect(() => replay.setSpeed(0)).toThrow('Invalid replay speed');
+    expect(() => replay.setSpeed(Infinity)).toThrow('Invalid replay speed');
+    replay.setSpeed(4);
+  });
+});
@@ -0,0 +1,105 @@
+// File: src/__tests__/responseCache.test.ts
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { LocalStorageCacheStore, ResponseCache } from '@/lib/responseCache';
+
+// Adapter answering every request with an incrementing version
+const countingAdapter = () => {
+  const sent: string[] = [];
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    sent.push(config.url ?? '');
+    return { data: { version: sent.length }, status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return { adapter, sent };
+};
+
+const policies = {
+  '/markets/': { ttlMs: 1000, staleWhileRevalidateMs: 5000 },
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ApiClient response cache', () => {
+  it('shares one request between identical concurrent GETs', async () => {
+    const { adapter, sent } = countingAdapter();
+    const client = new ApiClient();
+
+    const results = await Promise.all([
+      client.get('/book?token_id=1', undefined, { adapter }),
+      client.get('/book?token_id=1', undefined, { adapter }),
+      client.get('/book?token_id=2', undefined, { adapter }),
+    ]);
+
+    expect(sent).toEqual(['/book?token_id=1', '/book?token_id=2']);
+    expect(results).toEqual([{ version: 1 }, { version: 1 }, { version: 2 }]);
+
+    // Without a cache policy, later calls hit the network again
+    await client.get('/book?token_id=1', undefined, { adapter });
+    expect(sent).toHaveLength(3);
+  });
+
+  it('serves fresh entries, then stale ones while revalidating', async () => {
+    const { adapter, sent } = countingAdapter();
+    const client = new ApiClient({ cachePolicies: policies });
+
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 1 });
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 1 });
+    expect(sent).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 1 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(2);
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 2 });
+
+    // Past the stale window the entry is refetched before answering
+    jest.advanceTimersByTime(6000);
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 3 });
+  });
+
+  it('invalidates entries by key prefix', async () => {
+    const { adapter, sent } = countingAdapter();
+    const client = new ApiClient({ cachePolicies: policies });
+
+    await client.get('/markets/0xabc', undefined, { adapter });
+    await client.get('/markets/0xdef', undefined, { adapter });
+    expect(await client.invalidateCache('/markets/0xa')).toBe(1);
+
+    await client.get('/markets/0xabc', undefined, { adapter });
+    await client.get('/markets/0xdef', undefined, { adapter });
+    expect(sent).toEqual(['/markets/0xabc', '/markets/0xdef', '/markets/0xabc']);
+  });
+
+  it('skips cached copies for fresh GETs but caches their response', async () => {
+    const { adapter, sent } = countingAdapter();
+    const client = new ApiClient({ cachePolicies: policies });
+
+    await client.get('/markets/0xabc', undefined, { adapter });
+    expect(await client.get('/markets/0xabc', undefined, { adapter, fresh: true })).toEqual({ version: 2 });
+    expect(await client.get('/markets/0xabc', undefined, { adapter })).toEqual({ version: 2 });
+    expect(sent).toHaveLength(2);
+  });
+});
+
+describe('ResponseCache persistent tier', () => {
+  it('restores persisted entries into a new cache', async () => {
+    const policy = { ttlMs: 60000, persist: true };
+    await new ResponseCache({ persistent: new LocalStorageCacheStore() }).store('/markets/0xabc', { id: 1 }, policy);
+    await new ResponseCache({ persistent: new LocalStorageCacheStore() }).store('/book', { id: 2 }, { ttlMs: 60000 });
+
+    const cache = new ResponseCache({ persistent: new LocalStorageCacheStore() });
+    expect(await cache.lookup('/markets/0xabc')).toEqual({ state: 'fresh', value: { id: 1 } });
+    expect(await cache.lookup('/book')).toEqual({ state: 'miss' });
+
+    expect(await cache.invalidate('/markets/')).toBe(1);
+    expect(localStorage.length).toBe(0);
+  });
+});
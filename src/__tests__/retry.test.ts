@@ -0,0 +1,114 @@
+// File: src/__tests__/retry.test.ts
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { ApiError } from '@/lib/errors';
+import { RetryBudget, parseRetryAfter } from '@/lib/retry';
+import { failure } from '@/test-utils';
+
+type Reply = { status: number; headers?: Record<string, string> };
+
+// Adapter answering each request with the next scripted reply
+const scriptedAdapter = (replies: Reply[]) => {
+  const sentAt: number[] = [];
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    sentAt.push(Date.now());
+    const reply = replies.shift() ?? { status: 200 };
+    const response: AxiosResponse = {
+      data: {},
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: reply.headers ?? {},
+      config,
+    };
+    if (reply.status >= 400) {
+      throw new AxiosError(`HTTP ${reply.status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  return { adapter, sentAt };
+};
+
+// Resolve with the error of a request that is expected to fail
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts delay seconds and HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  it('shares a sliding budget of retries', () => {
+    const budget = new RetryBudget({ maxRetries: 2, windowMs: 1000 });
+    expect(budget.tryConsume()).toBe(true);
+    expect(budget.tryConsume()).toBe(true);
+    expect(budget.tryConsume()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(budget.getRemaining()).toBe(2);
+  });
+});
+
+describe('ApiClient retries', () => {
+  it('waits exactly the advertised Retry-After before retrying a 429', async () => {
+    const { adapter, sentAt } = scriptedAdapter([{ status: 429, headers: { 'retry-after': '3' } }]);
+    const client = new ApiClient({ debug: false });
+
+    const done = jest.fn();
+    client.get('/markets', undefined, { adapter }).then(done);
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(sentAt).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+    expect(sentAt[1] - sentAt[0]).toBe(3000);
+  });
+
+  it('records retries and wait time on the final error', async () => {
+    const { adapter } = scriptedAdapter([
+      { status: 429, headers: { 'retry-after': '1' } },
+      { status: 429, headers: { 'retry-after': '2' } },
+      { status: 429, headers: { 'retry-after': '120' } },
+    ]);
+    const client = new ApiClient({ debug: false, maxRetryAfterMs: 60000 });
+
+    const result = failure(client.get('/markets', undefined, { adapter }));
+    await jest.advanceTimersByTimeAsync(3000);
+    const error = await result;
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('RATE_LIMITED');
+    // The last Retry-After is over the cap, so the client gives up instead
+    expect(error.retries).toBe(2);
+    expect(error.retryWaitMs).toBe(3000);
+    expect(error.details?.retryAfterMs).toBe(120000);
+  });
+
+  it('stops retrying once the shared budget is spent', async () => {
+    const { adapter, sentAt } = scriptedAdapter([
+      { status: 503 },
+      { status: 503 },
+      { status: 503 },
+    ]);
+    const client = new ApiClient({ debug: false, retryDelay: 100, retryBudget: { maxRetries: 1, windowMs: 60000 } });
+
+    const results = [1, 2].map(id => failure(client.get(`/markets/${id}`, undefined, { adapter })));
+    await jest.advanceTimersByTimeAsync(1000);
+    const errors = await Promise.all(results);
+
+    expect(sentAt).toHaveLength(3);
+    expect(errors.map(error => error.code)).toEqual(['SERVICE_UNAVAILABLE', 'SERVICE_UNAVAILABLE']);
+    expect(errors.map(error => error.retries).sort()).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,318 @@
+// File: src/__tests__/sharedFeed.test.ts
+import Decimal from 'decimal.js';
+
+import { ApiEnvironmentManager, API_ENVIRONMENTS } from '@/lib/environment';
+import { SharedMarketFeed } from '@/lib/sharedFeed';
+import type { FeedChannel } from '@/lib/sharedFeed';
+import type { MarketFeed, MarketFeedListener } from '@/lib/socketManager';
+import type { OrderBook } from '@/types/orderbook';
+
+// Same-origin BroadcastChannel stand-in; messages are cloned and delivered async
+class MemoryChannel implements FeedChannel {
+  static channels: MemoryChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    MemoryChannel.channels.push(this);
+  }
+
+  postMessage(message: unknown) {
+    const data = JSON.parse(JSON.stringify(message));
+    MemoryChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => queueMicrotask(() => channel.onmessage?.({ data } as MessageEvent)));
+  }
+
+  close() {
+    MemoryChannel.channels = MemoryChannel.channels.filter(channel => channel !== this);
+  }
+}
+
+// Stands in for the leader's WebSocket manager
+class FakeFeed implements MarketFeed {
+  listeners = new Map<string, MarketFeedListener>();
+  closed = false;
+
+  subscribe(tokenId: string, listener: MarketFeedListener) {
+    this.listeners.set(tokenId, listener);
+    listener.onStatusChange?.('connected');
+    return () => {
+      this.listeners.delete(tokenId);
+    };
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+const book: OrderBook = {
+  bids: [{ price: new Decimal('0.48'), size: new Decimal('100'), total: new Decimal('100') }],
+  asks: [{ price: new Decimal('0.52'), size: new Decimal('80'), total: new Decimal('80') }],
+  lastUpdateId: 1,
+  timestamp: 1672290701000,
+  market: 'test-market',
+};
+
+describe('SharedMarketFeed', () => {
+  let feeds: FakeFeed[];
+  let fetchSnapshot: jest.Mock<Promise<OrderBook>, [string]>;
+  const createTab = (
+    environments = new ApiEnvironmentManager(API_ENVIRONMENTS.prod),
+    isHidden = () => false
+  ) => new SharedMarketFeed({
+    createChannel: name => new MemoryChannel(name),
+    createFeed: () => {
+      const feed = new FakeFeed();
+      feeds.push(feed);
+      return feed;
+    },
+    fetchSnapshot,
+    environments,
+    isHidden,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MemoryChannel.channels = [];
+    feeds = [];
+    fetchSnapshot = jest.fn<Promise<OrderBook>, [string]>(() => Promise.resolve(book));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs one feed for all tabs and fails over when the leader closes', async () => {
+    const tabA = createTab();
+    const onUpdateA = jest.fn();
+    tabA.subscribe('token-1', { onUpdate: onUpdateA });
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(tabA.isLeader()).toBe(true);
+    expect(feeds).toHaveLength(1);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(onUpdateA).toHaveBeenCalledTimes(1);
+
+    // A second tab is served by the leader instead of opening its own feed
+    const tabB = createTab();
+    const onUpdateB = jest.fn();
+    const onStatusB = jest.fn();
+    tabB.subscribe('token-1', { onUpdate: onUpdateB, onStatusChange: onStatusB });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(feeds).toHaveLength(1);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(onStatusB).toHaveBeenLastCalledWith('connected');
+    expect(onUpdateB.mock.calls[0][0].bids[0].price).toBeInstanceOf(Decimal);
+    expect(onUpdateB.mock.calls[0][0].bids[0].price.toString()).toBe('0.48');
+
+    // Live events are relayed to the follower
+    const update = { bids: [], asks: [], updateId: 2, timestamp: 0, type: 'delta' as const, marketId: 'token-1' };
+    feeds[0].listeners.get('token-1')?.onUpdate?.({ ...book, lastUpdateId: 2 }, update);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onUpdateB).toHaveBeenCalledTimes(2);
+
+    // The follower learns who leads from the next heartbeat
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(tabB.getLeaderId()).toBe(tabA.tabId);
+    expect(tabB.isLeader()).toBe(false);
+
+    // The leader leaves; the follower takes over its subscriptions
+    tabA.close();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(feeds[0].closed).toBe(true);
+    expect(tabB.isLeader()).toBe(true);
+    expect(feeds).toHaveLength(2);
+    expect([...feeds[1].listeners.keys()]).toEqual(['token-1']);
+
+    tabB.close();
+  });
+
+  it('takes over when the leader stops sending heartbeats', async () => {
+    const tabA = createTab();
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const tabB = createTab();
+    tabB.subscribe('token-2', {});
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(tabB.isLeader()).toBe(false);
+    expect([...feeds[0].listeners.keys()]).toEqual(['token-1', 'token-2']);
+
+    // Simulate a crashed leader tab: its channel goes silent without resigning
+    jest.spyOn(MemoryChannel.channels[0], 'postMessage').mockImplementation(() => {});
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(tabB.isLeader()).toBe(true);
+    expect([...feeds[1].listeners.keys()]).toEqual(['token-2']);
+
+    tabA.close();
+    tabB.close();
+  });
+
+  it('keeps the new leader when the replaced one sends a late heartbeat', async () => {
+    const tabA = createTab();
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const tabB = createTab();
+    tabB.subscribe('token-2', {});
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(tabB.getLeaderId()).toBe(tabA.tabId);
+
+    // The leader's timers are throttled: it neither sends nor handles messages
+    const channelA = MemoryChannel.channels[0];
+    const handleA = channelA.onmessage;
+    const post = jest.spyOn(channelA, 'postMessage').mockImplementation(() => {});
+    channelA.onmessage = null;
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(tabB.isLeader()).toBe(true);
+    expect(feeds).toHaveLength(2);
+
+    // Its late heartbeat makes it step down; the newer leader keeps running
+    post.mockRestore();
+    channelA.onmessage = handleA;
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(tabB.isLeader()).toBe(true);
+    expect(feeds[1].closed).toBe(false);
+    expect(tabA.getLeaderId()).toBe(tabB.tabId);
+    expect(feeds[0].closed).toBe(true);
+    expect([...feeds[1].listeners.keys()].sort()).toEqual(['token-1', 'token-2']);
+
+    tabA.close();
+    tabB.close();
+  });
+
+  it('lets one named follower take over when the leader resigns', async () => {
+    const tabA = createTab();
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const followers = [createTab(), createTab(), createTab()];
+    followers.forEach((tab, i) => tab.subscribe(`token-${i + 2}`, {}));
+    await jest.advanceTimersByTimeAsync(2000);
+
+    tabA.close();
+    await jest.advanceTimersByTimeAsync(0);
+
+    // Only the successor opens a feed, and the others move over to it
+    const successor = followers.find(tab => tab.isLeader());
+    expect(feeds).toHaveLength(2);
+    expect(successor?.tabId).toBe(followers.map(tab => tab.tabId).sort()[0]);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(feeds).toHaveLength(2);
+    expect(followers.filter(tab => tab.isLeader())).toHaveLength(1);
+    expect([...feeds[1].listeners.keys()].sort()).toEqual(['token-2', 'token-3', 'token-4']);
+
+    followers.forEach(tab => tab.close());
+  });
+
+  it('hands over to a visible tab when the leader is hidden', async () => {
+    let hidden = false;
+    const tabA = createTab(undefined, () => hidden);
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const tabB = createTab();
+    tabB.subscribe('token-2', {});
+    await jest.advanceTimersByTimeAsync(2000);
+
+    hidden = true;
+    document.dispatchEvent(new Event('visibilitychange'));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(tabB.isLeader()).toBe(true);
+    expect(tabA.getLeaderId()).toBe(tabB.tabId);
+    expect(feeds).toHaveLength(2);
+    expect([...feeds[1].listeners.keys()].sort()).toEqual(['token-1', 'token-2']);
+
+    tabA.close();
+    tabB.close();
+  });
+
+  it('waits longer for a hidden leader when no tab is visible', async () => {
+    const tabA = createTab(undefined, () => true);
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const tabB = createTab(undefined, () => true);
+    tabB.subscribe('token-2', {});
+    await jest.advanceTimersByTimeAsync(2000);
+
+    // Throttled heartbeats, well past the normal lease
+    jest.spyOn(MemoryChannel.channels[0], 'postMessage').mockImplementation(() => {});
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(tabB.isLeader()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(45000);
+    expect(tabB.isLeader()).toBe(true);
+
+    tabA.close();
+    tabB.close();
+  });
+
+  it('leaves on pagehide and rejoins with its subscribers when restored from the bfcache', async () => {
+    const tab = createTab();
+    const onUpdate = jest.fn();
+    const onStatusChange = jest.fn();
+    tab.subscribe('token-1', { onUpdate, onStatusChange });
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(tab.isLeader()).toBe(true);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+
+    window.dispatchEvent(new PageTransitionEvent('pagehide', { persisted: true }));
+    expect(feeds[0].closed).toBe(true);
+    expect(tab.isLeader()).toBe(false);
+    expect(MemoryChannel.channels).toHaveLength(0);
+
+    window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+    expect(onStatusChange).toHaveBeenLastCalledWith('connecting');
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(tab.isLeader()).toBe(true);
+    expect([...feeds[1].listeners.keys()]).toEqual(['token-1']);
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+    expect(onStatusChange).toHaveBeenLastCalledWith('connected');
+
+    tab.close();
+  });
+
+  it('shares a feed only between tabs of the same environment', async () => {
+    const tabA = createTab();
+    tabA.subscribe('token-1', {});
+    await jest.advanceTimersByTimeAsync(4000);
+
+    const environmentB = new ApiEnvironmentManager(API_ENVIRONMENTS.prod);
+    const tabB = createTab(environmentB);
+    const onUpdateB = jest.fn();
+    tabB.subscribe('token-1', { onUpdate: onUpdateB });
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(tabB.getLeaderId()).toBe(tabA.tabId);
+
+    // Switching away elects a leader among the tabs of the new environment
+    environmentB.set('staging');
+    expect(tabB.getLeaderId()).toBeNull();
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(tabB.isLeader()).toBe(true);
+    expect(tabA.isLeader()).toBe(true);
+    expect([...feeds[1].listeners.keys()]).toEqual(['token-1']);
+    expect(MemoryChannel.channels.map(channel => channel.name)).toEqual([
+      `polymarket-market-feed:${API_ENVIRONMENTS.prod.wsUrl}`,
+      `polymarket-market-feed:${API_ENVIRONMENTS.staging.wsUrl}`,
+    ]);
+
+    // Deltas of the old environment's leader no longer arrive
+    onUpdateB.mockClear();
+    const update = { bids: [], asks: [], updateId: 2, timestamp: 0, type: 'delta' as const, marketId: 'token-1' };
+    feeds[0].listeners.get('token-1')?.onUpdate?.({ ...book, lastUpdateId: 2 }, update);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onUpdateB).not.toHaveBeenCalled();
+
+    tabA.close();
+    tabB.close();
+  });
+});
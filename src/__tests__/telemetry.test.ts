@@ -0,0 +1,86 @@
+// File: src/__tests__/telemetry.test.ts
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import { ApiClient } from '@/lib/apiClient';
+import { LatencyAggregator, endpointTemplate } from '@/lib/telemetry';
+import type { RequestTelemetryEvent } from '@/lib/telemetry';
+
+const event = (endpoint: string, durationMs: number, errorCode?: string): RequestTelemetryEvent => ({
+  method: 'GET',
+  endpoint,
+  url: endpoint,
+  status: errorCode ? 500 : 200,
+  durationMs,
+  retries: 0,
+  bytes: 100,
+  errorCode,
+  startedAt: 0,
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('endpointTemplate', () => {
+  it('drops origin and query and replaces IDs', () => {
+    expect(endpointTemplate('/book?token_id=123')).toBe('/book');
+    expect(endpointTemplate('https://clob.polymarket.com/markets/0xabc123')).toBe('/markets/:id');
+    expect(endpointTemplate('/data/order/0x1f2e')).toBe('/data/order/:id');
+    expect(endpointTemplate('/sampling-simplified-markets')).toBe('/sampling-simplified-markets');
+    expect(endpointTemplate('/tokens/71321045679252212594626385532706912750332728571942532289631379312455583992563'))
+      .toBe('/tokens/:id');
+  });
+});
+
+describe('LatencyAggregator', () => {
+  it('keeps percentiles per endpoint over the recent samples', () => {
+    const aggregator = new LatencyAggregator(100);
+    for (let ms = 1; ms <= 100; ms++) {
+      aggregator.onRequest(event('/book', ms));
+    }
+    aggregator.onRequest(event('/markets/:id', 500, 'SERVER_ERROR'));
+
+    const [markets, book] = aggregator.getStats();
+    expect(markets).toMatchObject({ endpoint: '/markets/:id', count: 1, errors: 1, p50: 500 });
+    expect(book).toMatchObject({ endpoint: '/book', count: 100, p50: 50, p90: 90, p99: 99, maxMs: 100, bytes: 10000 });
+
+    // Older samples roll out of the window
+    for (let i = 0; i < 100; i++) {
+      aggregator.onRequest(event('/book', 1000));
+    }
+    expect(aggregator.getStats()[0]).toMatchObject({ endpoint: '/book', count: 200, p50: 1000 });
+  });
+});
+
+describe('ApiClient telemetry', () => {
+  it('reports every request with its outcome', async () => {
+    const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+      await new Promise(resolve => setTimeout(resolve, 40));
+      const status = config.url?.startsWith('/markets') ? 404 : 200;
+      const response = { data: { ok: true }, status, statusText: String(status), headers: { 'content-length': '11' }, config };
+      if (status >= 400) {
+        throw new AxiosError('Not found', 'ERR_BAD_REQUEST', config, null, response);
+      }
+      return response;
+    };
+    const events: RequestTelemetryEvent[] = [];
+    const client = new ApiClient({ telemetry: [{ onRequest: e => events.push(e) }] });
+
+    const book = client.get('/book?token_id=1', undefined, { adapter });
+    const market = client.get('/markets/0xabc', undefined, { adapter }).catch(() => null);
+    await jest.advanceTimersByTimeAsync(40);
+    await Promise.all([book, market]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ method: 'GET', endpoint: '/book', status: 200, durationMs: 40, bytes: 11, retries: 0 }),
+      expect.objectContaining({ method: 'GET', endpoint: '/markets/:id', status: 404, errorCode: 'NOT_FOUND', bytes: 0 }),
+    ]);
+    expect(events[0].errorCode).toBeUndefined();
+    expect(client.getLatencyStats().map(stats => stats.endpoint).sort()).toEqual(['/book', '/markets/:id']);
+  });
+});
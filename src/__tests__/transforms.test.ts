@@ -0,0 +1,45 @@
+// File: src/__tests__/transforms.test.ts
+import Decimal from 'decimal.js';
+
+import { accumulateTotals, aggregateOrderBook, precisionOptionsForTickSize } from '@/lib/transforms';
+import type { OrderBook } from '@/types/orderbook';
+
+const levels = (entries: Array<[string, string]>) =>
+  accumulateTotals(
+    entries.map(([price, size]) => ({ price: new Decimal(price), size: new Decimal(size) })),
+    0
+  );
+
+describe('aggregateOrderBook', () => {
+  const book: OrderBook = {
+    bids: levels([['0.985', '10'], ['0.981', '30'], ['0.975', '5']]),
+    asks: levels([['0.991', '20'], ['0.999', '20'], ['1', '5']]),
+    lastUpdateId: 1,
+    timestamp: 0,
+  };
+
+  it('buckets bids down and asks up with cumulative totals', () => {
+    const aggregated = aggregateOrderBook(book, 2);
+
+    expect(aggregated.bids.map(level => [level.price.toString(), level.size.toString(), level.count]))
+      .toEqual([['0.98', '40', 2], ['0.97', '5', 1]]);
+    expect(aggregated.bids[0].averagePrice?.toString()).toBe('0.982');
+    expect(aggregated.asks.map(level => [level.price.toString(), level.total.toString()]))
+      .toEqual([['1', '45']]);
+    expect(aggregated.originalOrderCount).toEqual({ bids: 3, asks: 3 });
+  });
+
+  it('keeps every level at the tick size precision', () => {
+    const aggregated = aggregateOrderBook(book, 3);
+
+    expect(aggregated.bids).toHaveLength(3);
+    expect(aggregated.asks.map(level => level.price.toString())).toEqual(['0.991', '0.999', '1']);
+  });
+});
+
+describe('precisionOptionsForTickSize', () => {
+  it('offers precisions up to the tick size decimals', () => {
+    expect(precisionOptionsForTickSize(new Decimal('0.01'))).toEqual([1, 2]);
+    expect(precisionOptionsForTickSize(new Decimal('0.001'))).toEqual([1, 2, 3]);
+  });
+});
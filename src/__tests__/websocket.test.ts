@@ -0,0 +1,831 @@
+// File: src/__tests__/websocket.test.ts
+import Decimal from 'decimal.js';
+
+import { apiEnvironment } from '@/lib/environment';
+import { transformOrderBookResponse } from '@/lib/transforms';
+import { MarketSocketManager } from '@/lib/socketManager';
+import { UserChannelSocket } from '@/lib/userSocket';
+import { OrderBookSocket, computeBackoffDelay } from '@/lib/websocket';
+import type { Clock } from '@/lib/clock';
+import type { BookSyncStats, OrderBook, OrderBookUpdate } from '@/types/orderbook';
+
+// Minimal WebSocket stand-in that lets tests push frames into the socket
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    // Mock close implementation
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  fail() {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({ code: 1006, reason: '' });
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const bookLevels = {
+  buys: [{ price: '0.48', size: '100' }, { price: '0.47', size: '50' }],
+  sells: [{ price: '0.52', size: '80' }, { price: '0.53', size: '40' }],
+};
+
+const bookMessage = {
+  event_type: 'book',
+  asset_id: 'test-asset',
+  market: 'test-market',
+  timestamp: '1672290701000',
+  ...bookLevels,
+  // SHA-1 of {"market":"test-market","asset_id":"test-asset","timestamp":"1672290701000",
+  // "bids":[{"price":"0.47","size":"50"},{"price":"0.48","size":"100"}],
+  // "asks":[{"price":"0.53","size":"40"},{"price":"0.52","size":"80"}],"hash":""}:
+  // the CLOB lists both sides from the far end of the book towards the spread
+  hash: '1f402ea2e0b2e133c2d23ee1450e34e9c23d9f1c',
+};
+
+const priceChange = (price: string, size: string, side: 'buy' | 'sell') => ({
+  event_type: 'price_change',
+  asset_id: 'test-asset',
+  market: 'test-market',
+  price,
+  size,
+  side,
+  timestamp: '1672290702000',
+});
+
+beforeEach(() => {
+  MockWebSocket.instances = [];
+  // @ts-expect-error - Mocking WebSocket for testing
+  global.WebSocket = MockWebSocket;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const restBook: OrderBook = {
+  bids: [{ price: new Decimal('0.45'), size: new Decimal('10'), total: new Decimal('10') }],
+  asks: [{ price: new Decimal('0.55'), size: new Decimal('20'), total: new Decimal('20') }],
+  lastUpdateId: 0,
+  timestamp: 1672290701500,
+};
+
+// Let pending promise callbacks run
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('OrderBookSocket', () => {
+  let updates: Array<{ book: OrderBook; update: OrderBookUpdate }>;
+  let syncChanges: BookSyncStats[];
+  let fetchSnapshot: jest.Mock<Promise<OrderBook>, [string]>;
+  let socket: OrderBookSocket;
+  let ws: MockWebSocket;
+
+  beforeEach(() => {
+    updates = [];
+    syncChanges = [];
+    fetchSnapshot = jest.fn<Promise<OrderBook>, [string]>(() => Promise.resolve(restBook));
+    socket = new OrderBookSocket('test-asset', {
+      onUpdate: (book, update) => updates.push({ book, update }),
+      onSyncChange: stats => syncChanges.push(stats),
+    }, { fetchSnapshot });
+    ws = MockWebSocket.instances[0];
+    ws.open();
+  });
+
+  afterEach(() => socket.close());
+
+  it('seeds the local book from a snapshot', () => {
+    ws.receive(bookMessage);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].update.type).toBe('snapshot');
+    expect(updates[0].book.bids[0].price.toString()).toBe('0.48');
+    expect(updates[0].book.bids[1].total.toString()).toBe('150');
+  });
+
+  it('applies price_change deltas and recomputes totals', () => {
+    ws.receive(bookMessage);
+    ws.receive(priceChange('0.49', '25', 'buy'));
+
+    const { book, update } = updates[1];
+    expect(update.type).toBe('delta');
+    expect(update.marketId).toBe('test-asset');
+    expect(update.bids).toHaveLength(1);
+    expect(update.asks).toHaveLength(0);
+    expect(update.bids[0].price.toString()).toBe('0.49');
+    expect(book.bids.map(bid => bid.price.toString())).toEqual(['0.49', '0.48', '0.47']);
+    expect(book.bids.map(bid => bid.total.toString())).toEqual(['25', '125', '175']);
+  });
+
+  it('removes a level when its size drops to zero', () => {
+    ws.receive(bookMessage);
+    ws.receive(priceChange('0.52', '0', 'sell'));
+
+    const { book, update } = updates[1];
+    expect(update.asks[0].size.isZero()).toBe(true);
+    expect(book.asks.map(ask => ask.price.toString())).toEqual(['0.53']);
+    expect(book.asks[0].total.toString()).toBe('40');
+  });
+
+  it('resyncs from REST when a delta arrives before a snapshot', async () => {
+    ws.receive(priceChange('0.49', '25', 'buy'));
+
+    expect(updates).toHaveLength(0);
+    expect(fetchSnapshot).toHaveBeenCalledWith('test-asset');
+
+    await flushPromises();
+
+    // The buffered delta is newer than the REST snapshot and is replayed on top
+    const { book, update } = updates[0];
+    expect(update.type).toBe('snapshot');
+    expect(book.bids.map(bid => bid.price.toString())).toEqual(['0.49', '0.45']);
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ gaps: 1, resyncs: 1, state: 'synced' });
+  });
+
+  it('verifies server hashes and resyncs on a mismatch', async () => {
+    ws.receive(bookMessage);
+    expect(fetchSnapshot).not.toHaveBeenCalled();
+
+    ws.receive({ ...priceChange('0.49', '25', 'buy'), hash: 'not-the-hash' });
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(syncChanges[syncChanges.length - 1].state).toBe('resyncing');
+
+    await flushPromises();
+
+    expect(socket.getSyncStats('test-asset')).toMatchObject({
+      hashChecks: 2,
+      hashMismatches: 1,
+      resyncs: 1,
+      lastResyncReason: 'hash_mismatch',
+    });
+    expect(updates[updates.length - 1].book.bids[0].price.toString()).toBe('0.45');
+  });
+
+  it('hashes REST snapshots with the strings the server sent', async () => {
+    // Sizes with trailing zeros, as the server may format them
+    const summary = {
+      market: 'test-market',
+      asset_id: 'test-asset',
+      timestamp: '1672290701500',
+      bids: [{ price: '0.45', size: '10.00' }],
+      asks: [{ price: '0.55', size: '20.0' }],
+      hash: 'd4fe743b7e9c1c9aea9cd2822368aee5781489bf',
+    };
+    fetchSnapshot.mockResolvedValue(transformOrderBookResponse(summary));
+
+    socket.resyncAsset('test-asset');
+    await flushPromises();
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ hashChecks: 1, hashMismatches: 0, state: 'synced' });
+
+    ws.receive({ ...priceChange('0.46', '5', 'buy'), hash: 'c556b981b9a7c9792ce8e6756f2ec56d1e45b978' });
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ hashChecks: 2, hashMismatches: 0, resyncs: 1 });
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('flags a REST snapshot that does not match its own hash', async () => {
+    fetchSnapshot.mockResolvedValue({ ...restBook, hash: 'not-the-hash' });
+
+    socket.resyncAsset('test-asset');
+    await flushPromises();
+
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ hashChecks: 1, hashMismatches: 1, state: 'unsynced' });
+  });
+
+  it('quarantines messages that fail validation', () => {
+    ws.receive(bookMessage);
+    ws.receive(priceChange('abc', '25', 'buy'));
+    ws.receive({ ...bookMessage, buys: undefined });
+    ws.onmessage?.({ data: '{not json' });
+
+    expect(updates).toHaveLength(1);
+    expect(socket.getBook('test-asset')?.bids.map(bid => bid.price.toString())).toEqual(['0.48', '0.47']);
+
+    const quarantined = socket.getQuarantine();
+    expect(quarantined).toHaveLength(3);
+    expect(quarantined[0]).toMatchObject({
+      eventType: 'price_change',
+      assetId: 'test-asset',
+      errors: ['price: Expected a decimal string'],
+    });
+    expect(quarantined[1].errors).toEqual(['buys: Required']);
+    expect(quarantined[2].data).toBe('{not json');
+    expect(socket.getHealth('test-asset')?.quarantined).toBe(2);
+  });
+
+  it('emits typed events to independent listeners', () => {
+    const books: OrderBook[] = [];
+    const deltas: OrderBookUpdate[] = [];
+    const errors: string[] = [];
+    const stopBooks = socket.on('book', ({ book }) => books.push(book));
+    socket.on('delta', update => deltas.push(update));
+    socket.on('error', error => errors.push(`${error.source}: ${error.message}`));
+    socket.on('book', () => {
+      throw new Error('broken chart');
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    ws.receive(bookMessage);
+    ws.receive(priceChange('0.49', '25', 'buy'));
+    expect(books).toHaveLength(2);
+    expect(deltas.map(delta => delta.bids[0].price.toString())).toEqual(['0.49']);
+    expect(errors).toEqual(['listener: book listener failed', 'listener: book listener failed']);
+    // The constructor handlers are just another listener
+    expect(updates).toHaveLength(2);
+
+    stopBooks();
+    ws.receive(priceChange('0.50', '5', 'buy'));
+    expect(books).toHaveLength(2);
+    expect(deltas).toHaveLength(2);
+
+    const statuses: string[] = [];
+    socket.once('status', status => statuses.push(status));
+    socket.close();
+    ws.fail();
+    expect(statuses).toEqual(['disconnected']);
+  });
+
+  it('keeps a trade tape and derives the last trade from consecutive prints', () => {
+    const onTrade = jest.fn();
+    const tradeSocket = new OrderBookSocket('test-asset', { onUpdate: jest.fn(), onTrade }, {
+      tradeBufferSize: 2,
+    });
+    const tradeWs = MockWebSocket.instances[MockWebSocket.instances.length - 1];
+    tradeWs.open();
+    tradeWs.receive(bookMessage);
+
+    const lastTradePrice = (price: string, timestamp: string) => ({
+      event_type: 'last_trade_price',
+      asset_id: 'test-asset',
+      market: 'test-market',
+      price,
+      size: '10',
+      side: 'BUY',
+      fee_rate_bps: '0',
+      timestamp,
+    });
+    tradeWs.receive(lastTradePrice('0.50', '1672290702000'));
+    tradeWs.receive(lastTradePrice('0.52', '1672290703000'));
+    tradeWs.receive(lastTradePrice('0.51', '1672290704000'));
+
+    const { lastTrade, recentTrades } = onTrade.mock.calls[2][0];
+    expect(lastTrade.direction).toBe('down');
+    expect(lastTrade.priceChange.toString()).toBe('-0.01');
+    expect(lastTrade.side).toBe('buy');
+    expect(recentTrades.map((trade: { price: Decimal }) => trade.price.toString())).toEqual(['0.51', '0.52']);
+    expect(tradeSocket.getBook('test-asset')?.lastPrice?.toString()).toBe('0.51');
+
+    tradeSocket.close();
+  });
+
+  it('subscribes and unsubscribes assets on the open connection', () => {
+    socket.subscribe(['other-asset']);
+    socket.unsubscribe(['test-asset']);
+
+    expect(ws.sent.map(frame => JSON.parse(frame))).toEqual([
+      { type: 'market', assets_ids: ['test-asset'] },
+      { assets_ids: ['other-asset'], operation: 'subscribe' },
+      { assets_ids: ['test-asset'], operation: 'unsubscribe' },
+    ]);
+    expect(socket.getAssetIds()).toEqual(['other-asset']);
+  });
+});
+
+describe('OrderBookSocket polling fallback', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const latestSocket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+  it('polls REST after reconnection fails and switches back once the socket recovers', async () => {
+    const onUpdate = jest.fn();
+    const fetchSnapshot = jest.fn<Promise<OrderBook>, [string]>(() => Promise.resolve(restBook));
+    const socket = new OrderBookSocket('test-asset', { onUpdate }, {
+      fetchSnapshot,
+      pollIntervalMs: 1000,
+      probeIntervalMs: 5000,
+    });
+
+    // Initial attempt plus five reconnection attempts all fail
+    for (let attempt = 0; attempt <= 5; attempt++) {
+      latestSocket().fail();
+      if (attempt < 5) jest.runOnlyPendingTimers();
+    }
+
+    expect(socket.getStatus()).toBe('fallback');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate.mock.calls[0][0].bids[0].price.toString()).toBe('0.45');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+
+    // A failed probe keeps polling without leaving fallback
+    const socketsBeforeProbe = MockWebSocket.instances.length;
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(MockWebSocket.instances.length).toBe(socketsBeforeProbe + 1);
+    latestSocket().fail();
+    expect(socket.getStatus()).toBe('fallback');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    latestSocket().open();
+    expect(socket.getStatus()).toBe('connected');
+
+    const polls = fetchSnapshot.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(polls);
+
+    socket.close();
+  });
+});
+
+describe('OrderBookSocket injected transport', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  // Clock whose timers only fire when the test advances time
+  const createManualClock = () => {
+    let now = 0;
+    let nextId = 1;
+    const timers = new Map<number, { at: number; callback: () => void; every?: number }>();
+    const clock: Clock = {
+      now: () => now,
+      setTimeout: (callback, delayMs) => {
+        const id = nextId++;
+        timers.set(id, { at: now + delayMs, callback });
+        return id as unknown as ReturnType<Clock['setTimeout']>;
+      },
+      clearTimeout: handle => { timers.delete(handle as unknown as number); },
+      setInterval: (callback, intervalMs) => {
+        const id = nextId++;
+        timers.set(id, { at: now + intervalMs, callback, every: intervalMs });
+        return id as unknown as ReturnType<Clock['setInterval']>;
+      },
+      clearInterval: handle => { timers.delete(handle as unknown as number); },
+    };
+    const advance = (ms: number) => {
+      const target = now + ms;
+      for (;;) {
+        const due = [...timers.entries()]
+          .filter(([, timer]) => timer.at <= target)
+          .sort((a, b) => a[1].at - b[1].at)[0];
+        if (!due) break;
+        const [id, timer] = due;
+        now = timer.at;
+        if (timer.every) timer.at += timer.every;
+        else timers.delete(id);
+        timer.callback();
+      }
+      now = target;
+    };
+    return { clock, advance };
+  };
+
+  it('connects through the factory and schedules reconnects and pings on the clock', () => {
+    const { clock, advance } = createManualClock();
+    const created: MockWebSocket[] = [];
+    const socket = new OrderBookSocket('test-asset', { onUpdate: jest.fn() }, {
+      url: 'ws://localhost:9999/ws/market',
+      createWebSocket: (url) => {
+        const ws = new MockWebSocket(url);
+        created.push(ws);
+        return ws as unknown as WebSocket;
+      },
+      backoff: { initialDelayMs: 200, multiplier: 3, maxAttempts: 2 },
+      heartbeatIntervalMs: 1000,
+      pollingFallback: false,
+      clock,
+    });
+
+    expect(created[0].url).toBe('ws://localhost:9999/ws/market');
+    created[0].open();
+    advance(2500);
+    expect(created[0].sent.filter(frame => frame.includes('ping'))).toHaveLength(2);
+
+    created[0].fail();
+    expect(socket.getStatus()).toBe('reconnecting');
+    advance(199);
+    expect(created).toHaveLength(1);
+    advance(1);
+    expect(created).toHaveLength(2);
+
+    created[1].fail();
+    advance(600);
+    created[2].fail();
+    expect(socket.getStatus()).toBe('error');
+
+    socket.close();
+  });
+
+  it('tracks feed health and recovers a silent feed', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { clock, advance } = createManualClock();
+    const created: MockWebSocket[] = [];
+    const onHealthChange = jest.fn();
+    const fetchSnapshot = jest.fn<Promise<OrderBook>, [string]>(() => new Promise(() => {}));
+    const socket = new OrderBookSocket('test-asset', { onUpdate: jest.fn(), onHealthChange }, {
+      createWebSocket: (url) => {
+        const ws = new MockWebSocket(url);
+        created.push(ws);
+        return ws as unknown as WebSocket;
+      },
+      staleAfterMs: 5000,
+      healthCheckIntervalMs: 1000,
+      verifyHashes: false,
+      fetchSnapshot,
+      clock,
+    });
+    const ws = created[0];
+    advance(1000);
+    ws.open();
+    ws.receive({ ...bookMessage, timestamp: '800' });
+
+    advance(2000);
+    expect(socket.getHealth('test-asset')).toMatchObject({
+      messageCount: 1,
+      lastMessageAgeMs: 2000,
+      serverLagMs: 200,
+      stale: false,
+    });
+    expect(onHealthChange).toHaveBeenCalled();
+    expect(fetchSnapshot).not.toHaveBeenCalled();
+
+    advance(4000);
+    expect(socket.getHealth('test-asset')).toMatchObject({ stale: true, staleRecoveries: 1 });
+    expect(ws.sent.slice(-2).map(frame => JSON.parse(frame).operation)).toEqual(['unsubscribe', 'subscribe']);
+    expect(fetchSnapshot).toHaveBeenCalledWith('test-asset');
+
+    ws.receive(priceChange('0.49', '25', 'buy'));
+    expect(onHealthChange.mock.calls[onHealthChange.mock.calls.length - 1][0].stale).toBe(false);
+
+    // Nothing at all arrives on the connection, not even after resubscribing
+    const close = jest.spyOn(ws, 'close');
+    advance(11000);
+    expect(close).toHaveBeenCalledWith(4000, 'Stale connection');
+
+    socket.close();
+  });
+
+  it('coalesces bursts into one update per interval', () => {
+    const { clock, advance } = createManualClock();
+    const updates: OrderBookUpdate[] = [];
+    const books: OrderBook[] = [];
+    const socket = new OrderBookSocket('test-asset', {
+      onUpdate: (book, update) => {
+        books.push(book);
+        updates.push(update);
+      },
+    }, {
+      clock,
+      createWebSocket: url => new MockWebSocket(url) as unknown as WebSocket,
+      coalesce: 50,
+    });
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+
+    ws.receive(bookMessage);
+    ws.receive(priceChange('0.49', '25', 'buy'));
+    ws.receive(priceChange('0.53', '0', 'sell'));
+    expect(updates).toHaveLength(0);
+
+    advance(50);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ type: 'snapshot', coalescedCount: 3 });
+    expect(books[0].bids.map(bid => bid.price.toString())).toEqual(['0.49', '0.48', '0.47']);
+
+    // Later changes to one level collapse into its latest size
+    ws.receive(priceChange('0.49', '30', 'buy'));
+    ws.receive(priceChange('0.49', '40', 'buy'));
+    ws.receive(priceChange('0.52', '0', 'sell'));
+    advance(50);
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ type: 'delta', coalescedCount: 3 });
+    expect(updates[1].bids.map(bid => [bid.size.toString(), bid.total.toString()])).toEqual([['40', '40']]);
+    expect(updates[1].asks.map(ask => ask.size.toString())).toEqual(['0']);
+    expect(books[1].asks).toHaveLength(0);
+
+    advance(1000);
+    expect(updates).toHaveLength(2);
+
+    socket.close();
+  });
+
+  it('checks the hash once per coalesced batch', () => {
+    const { clock, advance } = createManualClock();
+    const fetchSnapshot = jest.fn<Promise<OrderBook>, [string]>(() => Promise.resolve(restBook));
+    const socket = new OrderBookSocket('test-asset', {}, {
+      clock,
+      createWebSocket: url => new MockWebSocket(url) as unknown as WebSocket,
+      coalesce: 50,
+      fetchSnapshot,
+    });
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    ws.receive(bookMessage);
+    advance(50);
+
+    // Only the batch's final state has to match, against its last delta's hash
+    ws.receive({ ...priceChange('0.49', '10', 'buy'), hash: 'superseded-within-the-batch' });
+    ws.receive({ ...priceChange('0.49', '25', 'buy'), hash: 'aeaac5cb70dbea64b1a9472273c7ecf897917fa3' });
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ hashChecks: 1 });
+
+    advance(50);
+    expect(socket.getSyncStats('test-asset')).toMatchObject({ hashChecks: 2, hashMismatches: 0, state: 'synced' });
+    expect(fetchSnapshot).not.toHaveBeenCalled();
+
+    socket.close();
+  });
+
+  it('caps and jitters backoff delays', () => {
+    const policy = { initialDelayMs: 1000, maxDelayMs: 5000, multiplier: 2, maxAttempts: 10 };
+
+    expect([0, 1, 2, 3].map(attempt => computeBackoffDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+    expect(computeBackoffDelay({ ...policy, jitter: 0.5 }, 0, () => 0)).toBe(500);
+    expect(computeBackoffDelay({ ...policy, jitter: 0.5 }, 0, () => 1)).toBe(1500);
+  });
+});
+
+describe('MarketSocketManager', () => {
+  let manager: MarketSocketManager;
+
+  beforeEach(() => {
+    manager = new MarketSocketManager({ fetchSnapshot: () => Promise.resolve(restBook) });
+  });
+
+  afterEach(() => manager.close());
+
+  it('shares one connection and ref-counts subscriptions per token', () => {
+    const first = manager.subscribe('test-asset', {});
+    const second = manager.subscribe('test-asset', {});
+    const other = manager.subscribe('other-asset', {});
+
+    expect(MockWebSocket.instances).toHaveLength(1);
+    expect(manager.getSubscriberCount('test-asset')).toBe(2);
+
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    first();
+    expect(ws.sent).toHaveLength(1);
+
+    second();
+    expect(JSON.parse(ws.sent[1])).toEqual({ assets_ids: ['test-asset'], operation: 'unsubscribe' });
+    expect(manager.getSubscribedTokens()).toEqual(['other-asset']);
+
+    other();
+    expect(manager.getStatus()).toBe('idle');
+  });
+
+  it('routes events only to listeners of the matching token', () => {
+    const onTest = jest.fn();
+    const onOther = jest.fn();
+    const onTickSize = jest.fn();
+    manager.subscribe('test-asset', { onUpdate: onTest, onTickSizeChange: onTickSize });
+    manager.subscribe('other-asset', { onUpdate: onOther });
+
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    ws.receive([bookMessage]);
+    ws.receive({
+      event_type: 'tick_size_change',
+      asset_id: 'test-asset',
+      market: 'test-market',
+      old_tick_size: '0.01',
+      new_tick_size: '0.001',
+      timestamp: '1672290703000',
+    });
+
+    expect(onTest).toHaveBeenCalledTimes(1);
+    expect(onOther).not.toHaveBeenCalled();
+    expect(onTickSize.mock.calls[0][0].newTickSize.toString()).toBe('0.001');
+  });
+
+  it('replays the current book to late subscribers', () => {
+    manager.subscribe('test-asset', {});
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    ws.receive(bookMessage);
+
+    const onUpdate = jest.fn();
+    manager.subscribe('test-asset', { onUpdate });
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate.mock.calls[0][1].type).toBe('snapshot');
+  });
+
+  it('reconnects to the new WebSocket URL when the API environment switches', () => {
+    jest.useFakeTimers();
+    try {
+      manager.subscribe('test-asset', {});
+      expect(MockWebSocket.instances[0].url).toBe('wss://ws-subscriptions-clob.polymarket.com/ws/market');
+
+      apiEnvironment.set('local');
+      jest.advanceTimersByTime(100);
+      expect(MockWebSocket.instances[1].url).toBe('ws://localhost:8080/ws/market');
+    } finally {
+      apiEnvironment.set('prod');
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('UserChannelSocket', () => {
+  const credentials = { apiKey: 'key-1', secret: 'c2VjcmV0', passphrase: 'pass' };
+
+  const orderMessage = (type: string, sizeMatched: string) => ({
+    event_type: 'order',
+    id: 'order-1',
+    owner: 'key-1',
+    order_owner: 'key-1',
+    market: 'test-market',
+    asset_id: 'test-asset',
+    side: 'BUY',
+    original_size: '10',
+    size_matched: sizeMatched,
+    price: '0.48',
+    associate_trades: null,
+    outcome: 'Yes',
+    type,
+    timestamp: '1672290701',
+  });
+
+  it('authenticates and subscribes by condition ID', () => {
+    // The account address is not part of the channel's auth payload
+    const l2Credentials = { ...credentials, address: '0x0000000000000000000000000000000000000001' };
+    const socket = new UserChannelSocket(l2Credentials, ['test-market'], {});
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+
+    expect(ws.url).toBe('wss://ws-subscriptions-clob.polymarket.com/ws/user');
+    expect(JSON.parse(ws.sent[0])).toEqual({
+      type: 'user',
+      auth: credentials,
+      markets: ['test-market'],
+    });
+
+    socket.close();
+  });
+
+  it('tracks resting orders through placement, partial fill and cancellation', () => {
+    const onOrder = jest.fn();
+    const socket = new UserChannelSocket(credentials, ['test-market'], { onOrder });
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+
+    ws.receive(orderMessage('PLACEMENT', '0'));
+    ws.receive(orderMessage('UPDATE', '4'));
+    expect(onOrder.mock.calls.map(([event]) => event.type)).toEqual(['placement', 'update']);
+    expect(socket.getOpenOrders('test-asset')[0].remainingSize.toString()).toBe('6');
+    expect(onOrder.mock.calls[0][0].order.timestamp).toBe(1672290701000);
+
+    ws.receive(orderMessage('CANCELLATION', '4'));
+    expect(socket.getOpenOrders()).toHaveLength(0);
+
+    socket.close();
+  });
+
+  it('keeps streamed order state over a REST snapshot', () => {
+    const socket = new UserChannelSocket(credentials, ['test-market'], {});
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+    ws.receive(orderMessage('CANCELLATION', '0'));
+
+    const restingOrder = (id: string, market = 'test-market') => ({
+      id,
+      market,
+      assetId: 'test-asset',
+      side: 'buy' as const,
+      price: new Decimal('0.48'),
+      originalSize: new Decimal(10),
+      sizeMatched: new Decimal(0),
+      remainingSize: new Decimal(10),
+      outcome: 'Yes',
+      timestamp: 1672290700000,
+    });
+    // order-1 was cancelled after the snapshot was taken
+    socket.seedOpenOrders([restingOrder('order-1'), restingOrder('order-0'), restingOrder('other', 'other-market')]);
+
+    expect(socket.getOpenOrders('test-asset').map(order => order.id)).toEqual(['order-0']);
+
+    socket.close();
+  });
+
+  const tradeMessage = (makerOrders: object[]) => ({
+    event_type: 'trade',
+    type: 'TRADE',
+    id: 'trade-1',
+    asset_id: 'test-asset',
+    market: 'test-market',
+    price: '0.48',
+    size: '10',
+    side: 'SELL',
+    status: 'MATCHED',
+    taker_order_id: 'taker-1',
+    maker_orders: makerOrders,
+    matchtime: '1672290702',
+    last_update: '1672290702',
+    outcome: 'Yes',
+    owner: 'key-1',
+    trade_owner: 'key-1',
+    timestamp: '1672290702',
+  });
+
+  const makerOrder = (orderId: string, owner: string, assetId: string, price: string, matchedAmount: string) => ({
+    order_id: orderId,
+    owner,
+    maker_address: '0x1',
+    matched_amount: matchedAmount,
+    fee_rate_bps: '0',
+    price,
+    asset_id: assetId,
+    outcome: assetId === 'test-asset' ? 'Yes' : 'No',
+  });
+
+  it('reports taker fills from the trade itself', () => {
+    const onTrade = jest.fn();
+    const socket = new UserChannelSocket(credentials, ['test-market'], { onTrade });
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+
+    ws.receive(tradeMessage([makerOrder('order-2', 'someone-else', 'test-asset', '0.48', '10')]));
+
+    expect(onTrade).toHaveBeenCalledTimes(1);
+    const fill = onTrade.mock.calls[0][0];
+    expect(fill).toMatchObject({
+      id: 'trade-1',
+      assetId: 'test-asset',
+      side: 'sell',
+      status: 'MATCHED',
+      makerOrderIds: [],
+      timestamp: 1672290702000,
+    });
+    expect(fill.size.toString()).toBe('10');
+
+    socket.close();
+  });
+
+  it('reports maker fills from our maker orders', () => {
+    const onTrade = jest.fn();
+    const socket = new UserChannelSocket(credentials, ['test-market'], { onTrade });
+    const ws = MockWebSocket.instances[0];
+    ws.open();
+
+    // Against the taker's sell on the same asset: we bought what we matched
+    ws.receive(tradeMessage([
+      makerOrder('order-1', 'key-1', 'test-asset', '0.48', '4'),
+      makerOrder('order-2', 'someone-else', 'test-asset', '0.48', '6'),
+    ]));
+    // On the complementary asset, alongside the taker's sell: a merge, so we sold
+    ws.receive({
+      ...tradeMessage([
+        makerOrder('order-3', 'key-1', 'other-asset', '0.50', '2'),
+        makerOrder('order-4', 'key-1', 'other-asset', '0.53', '1'),
+      ]),
+      id: 'trade-2',
+    });
+
+    const [first, second] = onTrade.mock.calls.map(([fill]) => fill);
+    expect(first).toMatchObject({ assetId: 'test-asset', side: 'buy', outcome: 'Yes', makerOrderIds: ['order-1'] });
+    expect(first.size.toString()).toBe('4');
+    expect(first.price.toString()).toBe('0.48');
+
+    expect(second).toMatchObject({ assetId: 'other-asset', side: 'sell', outcome: 'No', makerOrderIds: ['order-3', 'order-4'] });
+    expect(second.size.toString()).toBe('3');
+    expect(second.price.toString()).toBe('0.51');
+
+    socket.close();
+  });
+});
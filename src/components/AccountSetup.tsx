@@ -0,0 +1,156 @@
+// File: src/components/AccountSetup.tsx
+import React, { useEffect, useState } from 'react';
+import polymarketClient, { EncryptedLocalStorageCredentialStore, InjectedWalletSigner } from '@/lib/apiClient';
+import type { Eip1193Provider } from '@/lib/auth';
+import type { L2Credentials } from '@/types';
+
+type SetupState = 'loading' | 'new' | 'locked' | 'unlocked';
+
+const injectedProvider = () =>
+  (window as Window & { ethereum?: Eip1193Provider }).ethereum;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/**
+ * Onboards the user's account once: the wallet signs for API credentials,
+ * which are kept in localStorage encrypted under a password of the user's
+ * choosing. Later visits only need the password.
+ */
+export const AccountSetup: React.FC<{ onCredentials: (credentials: L2Credentials | null) => void }> = ({
+  onCredentials,
+}) => {
+  const [store, setStore] = useState<EncryptedLocalStorageCredentialStore | null>(null);
+  const [state, setState] = useState<SetupState>('loading');
+  const [address, setAddress] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage only exists in the browser
+  useEffect(() => {
+    const credentialStore = new EncryptedLocalStorageCredentialStore();
+    setStore(credentialStore);
+    setState(credentialStore.hasSavedCredentials() ? 'locked' : 'new');
+    polymarketClient.setCredentialsProvider(credentialStore);
+    return () => polymarketClient.setCredentialsProvider(undefined);
+  }, []);
+
+  const run = async (action: (store: EncryptedLocalStorageCredentialStore) => Promise<void>) => {
+    if (!store) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await action(store);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signedIn = (credentials: L2Credentials | null) => {
+    setPassword('');
+    setAddress(credentials?.address ?? null);
+    setState(credentials ? 'unlocked' : 'new');
+    onCredentials(credentials);
+  };
+
+  const connect = () => run(async (credentialStore) => {
+    const provider = injectedProvider();
+    if (!provider) throw new Error('No browser wallet found');
+    if (!password) throw new Error('Choose a password to encrypt your API credentials');
+
+    const credentials = await polymarketClient.createOrDeriveApiKey(new InjectedWalletSigner(provider));
+    await credentialStore.unlock(password);
+    await credentialStore.save(credentials);
+    signedIn(credentials);
+  });
+
+  const unlock = () => run(async (credentialStore) => {
+    signedIn(await credentialStore.unlock(password));
+  });
+
+  const lock = () => {
+    store?.lock();
+    setAddress(null);
+    setState('locked');
+    onCredentials(null);
+  };
+
+  const forget = () => run(async (credentialStore) => {
+    await credentialStore.clear();
+    signedIn(null);
+  });
+
+  const revoke = () => run(async (credentialStore) => {
+    await polymarketClient.deleteApiKey();
+    await credentialStore.clear();
+    signedIn(null);
+  });
+
+  if (state === 'loading') return null;
+
+  const buttonClass = 'px-3 py-1.5 text-sm rounded-md font-medium transition-colors disabled:opacity-50';
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+        Account
+      </h3>
+
+      {state === 'unlocked' && address ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-mono text-sm text-gray-700 dark:text-gray-300" title={address}>
+            {shortAddress(address)}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={lock} disabled={busy} className={`${buttonClass} bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300`}>
+              Lock
+            </button>
+            <button onClick={revoke} disabled={busy} className={`${buttonClass} bg-red-600 hover:bg-red-700 text-white`}>
+              Revoke key
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void (state === 'locked' ? unlock() : connect());
+          }}
+          className="space-y-2"
+        >
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {state === 'locked'
+              ? 'Enter your password to unlock the API credentials saved on this device.'
+              : 'Connect your wallet to create API credentials; they are saved on this device, encrypted with this password.'}
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete={state === 'locked' ? 'current-password' : 'new-password'}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={`${buttonClass} bg-blue-600 hover:bg-blue-700 text-white`}>
+              {state === 'locked' ? 'Unlock' : 'Connect wallet'}
+            </button>
+            {state === 'locked' && (
+              <button type="button" onClick={forget} disabled={busy} className={`${buttonClass} bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300`}>
+                Forget
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-2 text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,29 @@
 // File: src/components/OrderBookViewer.tsx
 import React from 'react';
+import Decimal from 'decimal.js';
 import { useOrderBook } from '@/contexts/OrderBookContext';
-import type { Order } from '@/types/orderbook';
+import type { OrderBookLevel, LastTrade, FeedHealth } from '@/types/orderbook';
+import type { CircuitBreakerStatus } from '@/types/api';
 
 interface OrderRowProps {
-  order: Order;
+  order: OrderBookLevel;
   side: 'bid' | 'ask';
   precision: number;
   maxTotal: number;
+  /** Size of our own resting orders within this level */
+  ownSize?: Decimal;
 }
 
-const OrderRow: React.FC<OrderRowProps> = ({ order, side, precision, maxTotal }) => {
+const OrderRow: React.FC<OrderRowProps> = ({ order, side, precision, maxTotal, ownSize }) => {
   const sizeBarWidth = maxTotal > 0 ? (order.total.toNumber() / maxTotal) * 100 : 0;
   
   return (
-    <div className={`relative flex justify-between items-center py-1 px-2 text-sm font-mono hover:bg-gray-100 dark:hover:bg-gray-800 ${
-      side === 'bid' ? 'hover:bg-green-50 dark:hover:bg-green-900/20' : 'hover:bg-red-50 dark:hover:bg-red-900/20'
-    }`}>
+    <div
+      className={`relative flex justify-between items-center py-1 px-2 text-sm font-mono hover:bg-gray-100 dark:hover:bg-gray-800 ${
+        side === 'bid' ? 'hover:bg-green-50 dark:hover:bg-green-900/20' : 'hover:bg-red-50 dark:hover:bg-red-900/20'
+      } ${ownSize ? 'border-l-2 border-blue-500 bg-blue-50/50 dark:bg-blue-900/20' : ''}`}
+      data-own-size={ownSize?.toString()}
+    >
       {/* Background size indicator */}
       <div 
         className={`absolute inset-0 ${
@@ -33,6 +40,11 @@ const OrderRow: React.FC<OrderRowProps> = ({ order, side, precision, maxTotal })
           {order.price.toFixed(precision)}
         </span>
         <span className="text-gray-700 dark:text-gray-300">
+          {ownSize && (
+            <span className="mr-2 text-xs text-blue-600 dark:text-blue-400" title="Your resting size">
+              ({ownSize.toFixed(2)})
+            </span>
+          )}
           {order.size.toFixed(2)}
         </span>
         <span className="text-gray-500 dark:text-gray-400 text-xs">
@@ -45,13 +57,26 @@ const OrderRow: React.FC<OrderRowProps> = ({ order, side, precision, maxTotal })
 
 interface ConnectionStatusProps {
   status: string;
+  health?: FeedHealth | null;
+  /** REST endpoint groups failing fast behind an open circuit breaker */
+  degradedCircuits?: CircuitBreakerStatus[];
 }
 
-const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status }) => {
+// Format a duration for the freshness indicator
+const formatAge = (ms: number) => (ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status, health, degradedCircuits = [] }) => {
+  // A connected socket can still deliver nothing; the watchdog flags that
+  const isStale = status === 'connected' && health?.stale;
+  // The live feed may be fine while REST requests are failing fast
+  const isDegraded = degradedCircuits.length > 0;
+
   const getStatusColor = () => {
+    if (isDegraded) return 'text-orange-500';
+    if (isStale) return 'text-yellow-500';
     switch (status) {
       case 'connected': return 'text-green-500';
-      case 'connecting': case 'reconnecting': return 'text-yellow-500';
+      case 'connecting': case 'reconnecting': case 'fallback': return 'text-yellow-500';
       case 'error': return 'text-red-500';
       default: return 'text-gray-500';
     }
@@ -61,27 +86,93 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status }) => {
     switch (status) {
       case 'connected': return '●';
       case 'connecting': case 'reconnecting': return '◐';
+      case 'fallback': return '◑';
       case 'error': return '●';
       default: return '○';
     }
   };
 
+  const circuitDetails = degradedCircuits.map(circuit =>
+    circuit.state === 'open' && circuit.nextProbeAt !== null
+      ? `${circuit.key} API unavailable, retry in ${formatAge(Math.max(0, circuit.nextProbeAt - Date.now()))}`
+      : `${circuit.key} API recovering`
+  );
+
+  const feedDetails = health
+    ? [
+        `${health.messageRate.toFixed(1)} msg/s`,
+        health.serverLagMs !== undefined ? `lag ${formatAge(health.serverLagMs)}` : null,
+        `${health.reconnects} reconnects`,
+        `${formatAge(health.disconnectedMs)} disconnected`,
+        health.quarantined > 0 ? `${health.quarantined} rejected` : null,
+      ].filter(Boolean)
+    : [];
+  const details = [...circuitDetails, ...feedDetails].join(' · ') || undefined;
+
   return (
-    <div className="flex items-center gap-2 text-sm">
+    <div className="flex items-center gap-2 text-sm" title={details} data-testid="connection-status">
       <span className={`${getStatusColor()} font-mono`}>
         {getStatusIcon()}
       </span>
       <span className="capitalize text-gray-600 dark:text-gray-400">
-        {status}
+        {isDegraded ? 'Degraded' : isStale ? 'Stale' : status === 'fallback' ? 'Polling' : status}
+      </span>
+      {health && (status === 'connected' || status === 'fallback') && (
+        <span className="text-xs text-gray-500 dark:text-gray-400" data-testid="feed-freshness">
+          {formatAge(health.lastMessageAgeMs)} ago
+        </span>
+      )}
+    </div>
+  );
+};
+
+interface LastTradeIndicatorProps {
+  lastTrade: LastTrade;
+  precision: number;
+}
+
+// FR-OB-004: last trade with direction and percent change
+const LastTradeIndicator: React.FC<LastTradeIndicatorProps> = ({ lastTrade, precision }) => {
+  const color = lastTrade.direction === 'up'
+    ? 'text-green-600 dark:text-green-400'
+    : lastTrade.direction === 'down'
+      ? 'text-red-600 dark:text-red-400'
+      : 'text-gray-700 dark:text-gray-300';
+  const arrow = lastTrade.direction === 'up' ? '▲' : lastTrade.direction === 'down' ? '▼' : '■';
+  const sign = lastTrade.priceChangePercent.gt(0) ? '+' : '';
+
+  return (
+    <div className="flex justify-between items-center px-4 py-2 text-sm" data-testid="last-trade">
+      <span className="text-gray-600 dark:text-gray-400">Last trade:</span>
+      <span className={`font-mono ${color}`}>
+        {arrow} {lastTrade.price.toFixed(precision)}
+        <span className="ml-2 text-xs">
+          ({sign}{lastTrade.priceChangePercent.toFixed(2)}%)
+        </span>
       </span>
     </div>
   );
 };
 
 export const OrderBookViewer: React.FC = () => {
-  const { book, status, precision, rowCount, setPrecision, setRowCount } = useOrderBook();
+  const {
+    book,
+    aggregatedBook,
+    status,
+    syncStats,
+    health,
+    degradedCircuits,
+    lastTrade,
+    ownLiquidity,
+    precision,
+    precisionOptions,
+    rowCount,
+    setPrecision,
+    setRowCount,
+  } = useOrderBook();
 
-  if (status === 'connecting') {
+  // Feeds without a REST snapshot connect before their first book arrives
+  if (status === 'connecting' || (status === 'connected' && !book)) {
     return (
       <div className="flex flex-col items-center justify-center h-64 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-4"></div>
@@ -90,22 +181,26 @@ export const OrderBookViewer: React.FC = () => {
     );
   }
 
-  if (status === 'error' || !book) {
+  if (status === 'error' || !book || !aggregatedBook) {
     return (
       <div className="flex flex-col items-center justify-center h-64 bg-white dark:bg-gray-900 rounded-lg border border-red-200 dark:border-red-800">
         <div className="text-red-500 text-2xl mb-2">⚠</div>
         <p className="text-red-600 dark:text-red-400 text-center">
           Error loading order book
           <br />
-          <span className="text-sm">Please check your connection and try again</span>
+          <span className="text-sm">
+            {degradedCircuits.length > 0
+              ? 'The Polymarket API is unavailable; requests are paused until it recovers'
+              : 'Please check your connection and try again'}
+          </span>
         </p>
       </div>
     );
   }
 
-  // Get orders for display
-  const displayBids = book.bids.slice(0, rowCount);
-  const displayAsks = book.asks.slice(0, rowCount).reverse(); // Show best ask at bottom
+  // Get levels for display, grouped to the selected precision
+  const displayBids = aggregatedBook.bids.slice(0, rowCount);
+  const displayAsks = aggregatedBook.asks.slice(0, rowCount).reverse(); // Show best ask at bottom
   
   // Calculate max total for sizing bars
   const maxBidTotal = displayBids.length > 0 ? displayBids[displayBids.length - 1].total.toNumber() : 0;
@@ -126,7 +221,7 @@ export const OrderBookViewer: React.FC = () => {
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
             Order Book
           </h2>
-          <ConnectionStatus status={status} />
+          <ConnectionStatus status={status} health={health} degradedCircuits={degradedCircuits} />
         </div>
         
         <div className="flex gap-4 text-sm">
@@ -138,7 +233,7 @@ export const OrderBookViewer: React.FC = () => {
               className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
               data-testid="precision-input"
             >
-              {[0, 1, 2, 3, 4].map(p => (
+              {precisionOptions.map(p => (
                 <option key={p} value={p}>{p} decimals</option>
               ))}
             </select>
@@ -178,10 +273,13 @@ export const OrderBookViewer: React.FC = () => {
               side="ask"
               precision={precision}
               maxTotal={maxTotal}
+              ownSize={ownLiquidity.asks.get(ask.price.toString())}
             />
           ))}
         </div>
 
+        {lastTrade && <LastTradeIndicator lastTrade={lastTrade} precision={precision} />}
+
         {/* Spread indicator */}
         {spread && (
           <div className="px-4 py-3 bg-gray-50 dark:bg-gray-800 border-y border-gray-200 dark:border-gray-700">
@@ -210,14 +308,23 @@ export const OrderBookViewer: React.FC = () => {
               side="bid"
               precision={precision}
               maxTotal={maxTotal}
+              ownSize={ownLiquidity.bids.get(bid.price.toString())}
             />
           ))}
         </div>
       </div>
 
-      {/* Footer with last update time */}
-      <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
-        Last updated: {new Date(book.timestamp).toLocaleTimeString()}
+      {/* Footer with last update time and book integrity */}
+      <div className="flex justify-between px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+        <span>Last updated: {new Date(book.timestamp).toLocaleTimeString()}</span>
+        {syncStats && (
+          <span data-testid="sync-stats">
+            {syncStats.state !== 'synced' && (
+              <span className="capitalize text-yellow-600 dark:text-yellow-400 mr-2">{syncStats.state}</span>
+            )}
+            Resyncs: {syncStats.resyncs}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+// File: src/components/TimeAndSales.tsx
+import React from 'react';
+import { useOrderBook } from '@/contexts/OrderBookContext';
+
+interface TimeAndSalesProps {
+  /** Maximum number of trades to list */
+  maxRows?: number;
+}
+
+/**
+ * Streaming list of the most recent trades (FR-TH-001)
+ */
+export const TimeAndSales: React.FC<TimeAndSalesProps> = ({ maxRows = 20 }) => {
+  const { recentTrades, precision } = useOrderBook();
+  const trades = recentTrades.slice(0, maxRows);
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Recent Trades
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider bg-gray-50 dark:bg-gray-800">
+        <div>Time</div>
+        <div className="text-right">Price</div>
+        <div className="text-right">Size</div>
+      </div>
+
+      {trades.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+          Waiting for trades...
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-800" data-testid="trade-list">
+          {trades.map((trade, index) => (
+            <div
+              key={trade.id ?? `${trade.timestamp}-${index}`}
+              className="grid grid-cols-3 gap-4 px-4 py-1 text-sm font-mono"
+            >
+              <span className="text-gray-500 dark:text-gray-400 text-xs">
+                {new Date(trade.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={`text-right ${
+                trade.side === 'buy' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+              }`}>
+                {trade.price.toFixed(precision)}
+              </span>
+              <span className="text-right text-gray-700 dark:text-gray-300">
+                {trade.size.toFixed(2)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
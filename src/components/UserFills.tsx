@@ -0,0 +1,53 @@
+// File: src/components/UserFills.tsx
+import React from 'react';
+import { useOrderBook } from '@/contexts/OrderBookContext';
+
+/**
+ * Our own fills on the current asset, streamed from the user channel.
+ * Renders nothing unless the provider was given credentials.
+ */
+export const UserFills: React.FC = () => {
+  const { fills, ownOrders, userStatus, precision } = useOrderBook();
+
+  if (userStatus === null) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Your Fills
+        </h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {ownOrders.length} resting · <span className="capitalize">{userStatus}</span>
+        </span>
+      </div>
+
+      {fills.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+          No fills yet
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-800" data-testid="fill-list">
+          {fills.map(fill => (
+            <div key={fill.id} className="grid grid-cols-4 gap-2 px-4 py-1 text-sm font-mono">
+              <span className="text-gray-500 dark:text-gray-400 text-xs">
+                {new Date(fill.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={`text-right ${
+                fill.side === 'buy' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+              }`}>
+                {fill.price.toFixed(precision)}
+              </span>
+              <span className="text-right text-gray-700 dark:text-gray-300">
+                {fill.size.toFixed(2)}
+              </span>
+              <span className="text-right text-xs text-gray-500 dark:text-gray-400 capitalize">
+                {fill.status.toLowerCase()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,64 @@
 // File: src/contexts/OrderBookContext.tsx
-import React, { createContext, useState, useEffect, useContext } from 'react';
+import React, { createContext, useState, useEffect, useContext, useMemo } from 'react';
 import type { ReactNode } from 'react';
-import type { OrderBook } from '@/types/orderbook';
+import Decimal from 'decimal.js';
+import type {
+  OrderBook,
+  AggregatedOrderBook,
+  BookSyncStats,
+  TickSizeChange,
+  LastTrade,
+  TradePrint,
+  TradeTapeUpdate,
+  FeedHealth,
+} from '@/types/orderbook';
 import type { ConnectionStatus } from '@/types/orderbook'; // Use the simple type
-import { fetchOrderBook, OrderBookSocket } from '@/lib/apiClient';
+import type { CircuitBreakerStatus } from '@/types/api';
+import type { L2Credentials, UserOrder, UserTrade } from '@/types/user';
+import polymarketClient, {
+  apiEnvironment,
+  fetchOrderBook,
+  marketSocketManager,
+  StaticCredentialsProvider,
+  UserChannelSocket,
+} from '@/lib/apiClient';
+import type { ApiEnvironment } from '@/lib/environment';
+import { isApiError } from '@/lib/errors';
+import type { MarketFeed } from '@/lib/socketManager';
+import { aggregateOrderBook, precisionOptionsForTickSize, restingSizeByLevel } from '@/lib/transforms';
+
+// Offered until the market's tick size is known
+const DEFAULT_PRECISION_OPTIONS = [0, 1, 2, 3, 4];
+
+// Own fills kept for display
+const MAX_FILLS = 50;
 
 // Context value shape - simplified to use ConnectionStatus instead of ConnectionState
 export interface OrderBookContextProps {
   book: OrderBook | null;
   status: ConnectionStatus; // Changed from ConnectionState to ConnectionStatus
+  syncStats: BookSyncStats | null;
+  /** Freshness and delivery metrics of the live feed */
+  health: FeedHealth | null;
+  /** Latest trade with its move from the trade before */
+  lastTrade: LastTrade | null;
+  /** Recent trades, newest first */
+  recentTrades: TradePrint[];
+  /** Book grouped into price buckets of the selected precision */
+  aggregatedBook: AggregatedOrderBook | null;
+  /** Minimum tick size of the market, once known */
+  tickSize: Decimal | null;
+  precisionOptions: number[];
+  /** Our resting orders on this asset (requires credentials) */
+  ownOrders: UserOrder[];
+  /** Our resting size per displayed price level, keyed like the aggregated book's prices */
+  ownLiquidity: { bids: Map<string, Decimal>; asks: Map<string, Decimal> };
+  /** Our fills on this asset, newest first (requires credentials) */
+  fills: UserTrade[];
+  /** User channel status, or null without credentials */
+  userStatus: ConnectionStatus | null;
+  /** REST endpoint groups whose circuit breaker is open or half-open */
+  degradedCircuits: CircuitBreakerStatus[];
   precision: number;
   rowCount: number;
   setPrecision: (precision: number) => void;
@@ -19,6 +69,18 @@ export interface OrderBookContextProps {
 const defaultContext: OrderBookContextProps = {
   book: null,
   status: 'idle',
+  syncStats: null,
+  health: null,
+  lastTrade: null,
+  recentTrades: [],
+  aggregatedBook: null,
+  tickSize: null,
+  precisionOptions: DEFAULT_PRECISION_OPTIONS,
+  ownOrders: [],
+  ownLiquidity: { bids: new Map(), asks: new Map() },
+  fills: [],
+  userStatus: null,
+  degradedCircuits: [],
   precision: 2,
   rowCount: 10,
   setPrecision: () => {},
@@ -30,46 +92,135 @@ const OrderBookContext = createContext<OrderBookContextProps>(defaultContext);
 
 interface OrderBookProviderProps {
   marketId: string;
+  /** L2 credentials used to load and stream our own orders and fills; keep the object stable */
+  credentials?: L2Credentials;
+  /** Source of live updates (default: the shared market WebSocket) */
+  feed?: MarketFeed;
+  /**
+   * Load a REST snapshot before subscribing (default: true). Disable for
+   * feeds that deliver their own snapshot, such as session replays.
+   */
+  initialSnapshot?: boolean;
   children: ReactNode;
 }
 
 // Provider component
-export const OrderBookProvider: React.FC<OrderBookProviderProps> = ({ marketId, children }) => {
+export const OrderBookProvider: React.FC<OrderBookProviderProps> = ({
+  marketId,
+  credentials,
+  feed = marketSocketManager,
+  initialSnapshot = true,
+  children,
+}) => {
   const [book, setBook] = useState<OrderBook | null>(null);
   const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const [syncStats, setSyncStats] = useState<BookSyncStats | null>(null);
+  const [health, setHealth] = useState<FeedHealth | null>(null);
+  const [lastTrade, setLastTrade] = useState<LastTrade | null>(null);
+  const [recentTrades, setRecentTrades] = useState<TradePrint[]>([]);
+  const [tickSize, setTickSize] = useState<Decimal | null>(null);
+  const [ownOrders, setOwnOrders] = useState<UserOrder[]>([]);
+  const [fills, setFills] = useState<UserTrade[]>([]);
+  const [userStatus, setUserStatus] = useState<ConnectionStatus | null>(null);
+  const [degradedCircuits, setDegradedCircuits] = useState<CircuitBreakerStatus[]>([]);
+  // Switching the API environment reloads everything from the new servers
+  const [environment, setEnvironment] = useState<ApiEnvironment>(() => apiEnvironment.get());
   const [precision, setPrecision] = useState<number>(2);
   const [rowCount, setRowCount] = useState<number>(10);
+  const conditionId = book?.market;
 
   useEffect(() => {
     let mounted = true;
-    let socket: OrderBookSocket | null = null;
+    let unsubscribe: (() => void) | null = null;
+    // Aborts the REST requests of a superseded market
+    const controller = new AbortController();
+    const { signal } = controller;
+    let hasLiveTickSize = false;
+    setSyncStats(null);
+    setHealth(null);
+    setLastTrade(null);
+    setRecentTrades([]);
+    setTickSize(null);
+
+    // Show prices at the granularity the market actually trades at
+    const applyTickSize = (newTickSize: Decimal) => {
+      setTickSize(newTickSize);
+      setPrecision(newTickSize.decimalPlaces());
+    };
+
+    let tickSizeRequested = false;
+    const loadTickSize = async (conditionId: string) => {
+      if (tickSizeRequested) return;
+      tickSizeRequested = true;
+      try {
+        // Not the cached market: its tick size may be up to a day old
+        const { minimumTickSize } = await polymarketClient.fetchOrderRules(conditionId, { signal });
+        // A live tick_size_change that arrived meanwhile is more recent
+        if (mounted && !hasLiveTickSize) {
+          applyTickSize(new Decimal(minimumTickSize));
+        }
+      } catch (error) {
+        if (isApiError(error) && error.isType('CANCELLED')) return;
+        console.error('Market tick size fetch error:', error);
+      }
+    };
 
     const initializeOrderBook = async () => {
       setStatus('connecting');
 
       try {
-        // Fetch initial snapshot
-        const initialBook = await fetchOrderBook(marketId);
-        
-        if (!mounted) return;
-        
-        setBook(initialBook);
-        setStatus('connected');
-
-        // Subscribe to live updates
-        socket = new OrderBookSocket(
-          marketId, 
-          (updatedBook: OrderBook) => {
+        if (initialSnapshot) {
+          // Fetch initial snapshot
+          const initialBook = await fetchOrderBook(marketId, { signal });
+
+          if (!mounted) return;
+
+          setBook(initialBook);
+          setStatus('connected');
+
+          if (initialBook.market) {
+            loadTickSize(initialBook.market);
+          }
+        } else {
+          setBook(null);
+        }
+
+        // Subscribe to live updates on the shared connection
+        unsubscribe = feed.subscribe(marketId, {
+          onUpdate: (updatedBook: OrderBook) => {
             if (!mounted) return;
             setBook(updatedBook);
+            // Feeds without a REST snapshot reveal the market with their first book
+            if (updatedBook.market) {
+              loadTickSize(updatedBook.market);
+            }
           },
-          (newStatus: ConnectionStatus) => {
+          onStatusChange: (newStatus: ConnectionStatus) => {
             if (!mounted) return;
             setStatus(newStatus);
-          }
-        );
+          },
+          onSyncChange: (stats: BookSyncStats) => {
+            if (!mounted) return;
+            setSyncStats(stats);
+          },
+          onTickSizeChange: (change: TickSizeChange) => {
+            if (!mounted) return;
+            hasLiveTickSize = true;
+            applyTickSize(change.newTickSize);
+          },
+          onHealthChange: (newHealth: FeedHealth) => {
+            if (!mounted) return;
+            setHealth(newHealth);
+          },
+          onTrade: (update: TradeTapeUpdate) => {
+            if (!mounted) return;
+            setLastTrade(update.lastTrade);
+            setRecentTrades(update.recentTrades);
+          },
+        });
 
       } catch (error) {
+        if (isApiError(error) && error.isType('CANCELLED')) return;
         console.error('OrderBook fetch error:', error);
         if (mounted) {
           setStatus('error');
@@ -81,15 +232,97 @@ export const OrderBookProvider: React.FC<OrderBookProviderProps> = ({ marketId,
 
     return () => {
       mounted = false;
-      if (socket) {
-        socket.close();
+      controller.abort();
+      if (unsubscribe) {
+        unsubscribe();
       }
     };
-  }, [marketId]);
+  }, [marketId, feed, initialSnapshot, environment]);
+
+  // Our own orders and fills, streamed over the authenticated user channel.
+  // Orders placed before it connected come from a REST query.
+  useEffect(() => {
+    setOwnOrders([]);
+    setFills([]);
+    setUserStatus(null);
+    if (!credentials || !conditionId) return;
+
+    const userSocket: UserChannelSocket = new UserChannelSocket(credentials, [conditionId], {
+      onOrder: ({ order }) => {
+        if (order.assetId !== marketId) return;
+        setOwnOrders(userSocket.getOpenOrders(marketId));
+      },
+      onTrade: (trade: UserTrade) => {
+        if (trade.assetId !== marketId) return;
+        // Settlement status updates replace the earlier report of the same fill
+        setFills(current => [trade, ...current.filter(fill => fill.id !== trade.id)].slice(0, MAX_FILLS));
+      },
+      onStatusChange: setUserStatus,
+    });
+
+    const controller = new AbortController();
+    // Signed with the same credentials as the socket, whatever the client holds
+    const options = { signal: controller.signal, credentials: new StaticCredentialsProvider(credentials) };
+    polymarketClient.fetchAllOpenOrders({ assetId: marketId }, options)
+      .then((orders) => {
+        userSocket.seedOpenOrders(orders);
+        setOwnOrders(userSocket.getOpenOrders(marketId));
+      })
+      .catch((error) => {
+        if (isApiError(error) && error.isType('CANCELLED')) return;
+        console.warn('Open orders fetch error:', error);
+      });
+
+    return () => {
+      controller.abort();
+      userSocket.close();
+    };
+  }, [marketId, conditionId, credentials, environment]);
+
+  useEffect(() => apiEnvironment.onChange(setEnvironment), []);
+
+  // Degraded mode while the REST API is failing fast
+  useEffect(() => {
+    const update = () => {
+      setDegradedCircuits(polymarketClient.getCircuitStatus().filter(circuit => circuit.state !== 'closed'));
+    };
+    update();
+    return polymarketClient.onCircuitChange(update);
+  }, []);
+
+  const precisionOptions = useMemo(
+    () => (tickSize ? precisionOptionsForTickSize(tickSize) : DEFAULT_PRECISION_OPTIONS),
+    [tickSize]
+  );
+
+  const aggregatedBook = useMemo(
+    () => (book ? aggregateOrderBook(book, precision) : null),
+    [book, precision]
+  );
+
+  const ownLiquidity = useMemo(
+    () => ({
+      bids: restingSizeByLevel(ownOrders, precision, 'bid'),
+      asks: restingSizeByLevel(ownOrders, precision, 'ask'),
+    }),
+    [ownOrders, precision]
+  );
 
   const value: OrderBookContextProps = {
     book,
     status,
+    syncStats,
+    health,
+    lastTrade,
+    recentTrades,
+    aggregatedBook,
+    tickSize,
+    precisionOptions,
+    ownOrders,
+    ownLiquidity,
+    fills,
+    userStatus,
+    degradedCircuits,
     precision,
     rowCount,
     setPrecision,
@@ -1,9 +1,25 @@
 // File: src/lib/apiClient.ts
-import axios, { AxiosInstance, AxiosResponse, AxiosRequestConfig, AxiosError } from 'axios';
+import axios, { AxiosHeaders, AxiosInstance, AxiosResponse, AxiosRequestConfig, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { AxiosAdapter } from 'axios';
 import axiosRetry from 'axios-retry';
 import { z } from 'zod';
-import { ApiError, handleApiError, createApiError, isAxiosError } from '@/lib/errors';
-import type { RateLimitInfo } from '@/types/api';
+import { createL2Headers, missingCredentials, requestPath, requiresL2Auth } from '@/lib/auth';
+import type { CredentialsProvider } from '@/lib/auth';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER } from '@/lib/circuitBreaker';
+import type { CircuitBreakerConfig } from '@/lib/circuitBreaker';
+import { TypedEventEmitter } from '@/lib/emitter';
+import type { EventListener } from '@/lib/emitter';
+import { ApiError, handleApiError, createApiError, createCancelledError, isAxiosError } from '@/lib/errors';
+import { DEFAULT_RATE_LIMITS, RateLimiter, endpointGroupFor } from '@/lib/rateLimiter';
+import { ResponseCache } from '@/lib/responseCache';
+import type { CachePolicy, CacheStore } from '@/lib/responseCache';
+import type { EndpointGroup, RateLimitConfig } from '@/lib/rateLimiter';
+import { RetryBudget, parseRetryAfter } from '@/lib/retry';
+import type { RetryBudgetConfig } from '@/lib/retry';
+import { LatencyAggregator, endpointTemplate } from '@/lib/telemetry';
+import type { EndpointLatencyStats, RequestTelemetryEvent, TelemetrySink } from '@/lib/telemetry';
+import type { CircuitBreakerStatus, RateLimitInfo } from '@/types/api';
+import type { L2Credentials } from '@/types/user';
 
 /**
  * Configuration for the API client
@@ -21,6 +37,95 @@ export interface ApiClientConfig {
   headers?: Record<string, string>;
   /** Enable request/response logging */
   debug?: boolean;
+  /** Client-side rate limit applied to every endpoint group */
+  rateLimit?: RateLimitConfig;
+  /** Per-group overrides of the client-side rate limit */
+  rateLimits?: Partial<Record<EndpointGroup, RateLimitConfig>>;
+  /** Longest Retry-After the client waits out; longer ones fail right away */
+  maxRetryAfterMs?: number;
+  /** Retries shared by all requests of the client */
+  retryBudget?: RetryBudgetConfig;
+  /** GET response caching by endpoint path prefix; the longest matching prefix applies */
+  cachePolicies?: Record<string, CachePolicy>;
+  /** Persistent tier for responses whose policy sets `persist` */
+  cacheStore?: CacheStore;
+  /** Circuit breaker per endpoint group; false disables it */
+  circuitBreaker?: Partial<CircuitBreakerConfig> | false;
+  /** Receivers of per-request telemetry, next to the built-in latency aggregator */
+  telemetry?: TelemetrySink[];
+  /** L2 credentials for the authenticated routes */
+  credentials?: CredentialsProvider;
+  /** Transport that sends the requests; axios's own when unset */
+  adapter?: AxiosAdapter;
+}
+
+/**
+ * Per-call options of the PolymarketClient methods
+ */
+export interface RequestOptions {
+  /** Aborts the request; it then rejects with a CANCELLED ApiError */
+  signal?: AbortSignal;
+  /** Timeout of each attempt, overriding the client's */
+  timeoutMs?: number;
+  /** L2 credentials signing this call instead of the client's */
+  credentials?: CredentialsProvider;
+}
+
+/**
+ * Axios config carrying the per-call options
+ */
+export const requestConfig = ({ signal, timeoutMs, credentials }: RequestOptions): SignedRequestConfig => ({
+  signal,
+  timeout: timeoutMs,
+  credentials,
+});
+
+/**
+ * Request config that may carry its own L2 credentials
+ */
+export type SignedRequestConfig = AxiosRequestConfig & { credentials?: CredentialsProvider };
+
+/**
+ * Config of a GET. `fresh` skips cached copies and waits for the server;
+ * the response still refreshes the cache for later callers.
+ */
+export type GetRequestConfig = SignedRequestConfig & { fresh?: boolean };
+
+/**
+ * A GET shared by identical concurrent callers. It is aborted only once
+ * every caller that could cancel has done so.
+ */
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Events emitted by ApiClient
+ */
+export interface ApiClientEvents {
+  /** A circuit breaker changed state */
+  circuit: CircuitBreakerStatus;
+}
+
+/**
+ * Request config carrying the time spent waiting between retries
+ */
+type TrackedRequestConfig = InternalAxiosRequestConfig & { retryWaitMs?: number };
+
+const DEFAULT_RETRY_BUDGET: RetryBudgetConfig = { maxRetries: 10, windowMs: 10000 };
+
+// Body size from Content-Length, or from the decoded body when the header is missing
+function responseBytes(response: AxiosResponse): number {
+  const length = Number(response.headers?.['content-length']);
+  if (length > 0) return length;
+  if (typeof response.data === 'string') return response.data.length;
+  try {
+    return JSON.stringify(response.data)?.length ?? 0;
+  } catch {
+    return 0;
+  }
 }
 
 /**
@@ -32,6 +137,8 @@ const DEFAULT_CONFIG: ApiClientConfig = {
   retryAttempts: 3,
   retryDelay: 1000, // 1 second
   debug: process.env.NODE_ENV === 'development',
+  maxRetryAfterMs: 60000,
+  retryBudget: DEFAULT_RETRY_BUDGET,
 };
 
 /**
@@ -40,19 +147,40 @@ const DEFAULT_CONFIG: ApiClientConfig = {
 export class ApiClient {
   private client: AxiosInstance;
   private config: ApiClientConfig;
-  private rateLimitInfo: RateLimitInfo | null = null;
+  private rateLimiter: RateLimiter;
+  private retryBudget: RetryBudget;
+  private cache: ResponseCache;
+  private inFlight = new Map<string, SharedRequest>();
+  private breakers = new Map<EndpointGroup, CircuitBreaker>();
+  private events = new TypedEventEmitter<ApiClientEvents>();
+  private latency = new LatencyAggregator();
 
   constructor(config: Partial<ApiClientConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.client = this.createAxiosInstance();
-    this.setupRetryLogic();
-    this.setupInterceptors();
+    this.rateLimiter = this.createRateLimiter();
+    this.retryBudget = new RetryBudget(this.config.retryBudget ?? DEFAULT_RETRY_BUDGET);
+    this.cache = new ResponseCache({ persistent: this.config.cacheStore });
+    this.client = this.createTransport();
+  }
+
+  /**
+   * Axios instance with the circuit breaker, retry policy and interceptors
+   * for the current config
+   */
+  private createTransport(): AxiosInstance {
+    const client = this.createAxiosInstance();
+    // Registered ahead of axios-retry so that every attempt is counted
+    this.setupCircuitBreaker(client);
+    this.setupRetryLogic(client);
+    this.setupInterceptors(client);
+    return client;
   }
 
   private createAxiosInstance(): AxiosInstance {
     return axios.create({
       baseURL: this.config.baseUrl,
       timeout: this.config.timeout,
+      adapter: this.config.adapter,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -61,20 +189,94 @@ export class ApiClient {
     });
   }
 
-  private setupRetryLogic(): void {
-    axiosRetry(this.client, {
+  private createRateLimiter(): RateLimiter {
+    const { rateLimit, rateLimits } = this.config;
+    const limits = { ...DEFAULT_RATE_LIMITS };
+    (Object.keys(limits) as EndpointGroup[]).forEach((group) => {
+      limits[group] = rateLimits?.[group] ?? rateLimit ?? limits[group];
+    });
+    return new RateLimiter(limits);
+  }
+
+  private setupCircuitBreaker(client: AxiosInstance): void {
+    client.interceptors.response.use(
+      (response) => {
+        this.getBreaker(response.config?.url)?.recordSuccess();
+        return response;
+      },
+      (error) => {
+        // Rejected by an open breaker before it was sent
+        if (error instanceof ApiError) {
+          return Promise.reject(error);
+        }
+
+        const breaker = this.getBreaker(error.config?.url);
+        const status = error.response?.status;
+        if (error.code === 'ERR_CANCELED') {
+          breaker?.release();
+        } else if (status === undefined || status >= 500) {
+          breaker?.recordFailure();
+        } else {
+          // Any other answer means the server is up
+          breaker?.recordSuccess();
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private getBreaker(url: string | undefined): CircuitBreaker | null {
+    if (this.config.circuitBreaker === false) return null;
+
+    const group = endpointGroupFor(url ?? '');
+    let breaker = this.breakers.get(group);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        group,
+        { ...DEFAULT_CIRCUIT_BREAKER, ...this.config.circuitBreaker },
+        status => this.events.emit('circuit', status)
+      );
+      this.breakers.set(group, breaker);
+    }
+    return breaker;
+  }
+
+  private setupRetryLogic(client: AxiosInstance): void {
+    axiosRetry(client, {
       retries: this.config.retryAttempts,
-      retryDelay: (retryCount) => {
-        // Exponential backoff with jitter
-        const delay = Math.min(this.config.retryDelay * Math.pow(2, retryCount - 1), 30000);
-        const jitter = Math.random() * 0.1 * delay;
-        return delay + jitter;
+      // A Retry-After wait may exceed the timeout of a single attempt
+      shouldResetTimeout: true,
+      retryDelay: (retryCount, error) => {
+        // Wait exactly as long as the server asks; otherwise exponential backoff with jitter
+        let delay = this.getRetryAfter(error);
+        if (delay === null) {
+          const backoff = Math.min(this.config.retryDelay * Math.pow(2, retryCount - 1), 30000);
+          delay = backoff + Math.random() * 0.1 * backoff;
+        }
+
+        const config = error.config as TrackedRequestConfig | undefined;
+        if (config) {
+          config.retryWaitMs = (config.retryWaitMs ?? 0) + delay;
+        }
+        return delay;
       },
       retryCondition: (error: AxiosError) => {
-        // Retry on network errors or 5xx responses
-        return axiosRetry.isNetworkError(error) || 
+        // Retry on network errors, 429s and 5xx responses
+        const retryable = axiosRetry.isNetworkError(error) || 
                axiosRetry.isRetryableError(error) ||
                (error.response?.status ? error.response.status >= 500 : false);
+        if (!retryable) return false;
+
+        // Retrying into an open breaker would only be rejected
+        if (this.getBreaker(error.config?.url)?.getState() === 'open') return false;
+
+        // Don't hold the caller for longer than the cap; the error says when to come back
+        const retryAfter = this.getRetryAfter(error);
+        if (retryAfter !== null && retryAfter > (this.config.maxRetryAfterMs ?? Infinity)) {
+          return false;
+        }
+
+        return this.retryBudget.tryConsume();
       },
       onRetry: (retryCount, error) => {
         if (this.config.debug) {
@@ -84,10 +286,48 @@ export class ApiClient {
     });
   }
 
-  private setupInterceptors(): void {
-    // Request interceptor
-    this.client.interceptors.request.use(
-      (config) => {
+  private setupInterceptors(client: AxiosInstance): void {
+    // Request interceptor; retries pass through it too, so they are throttled as well
+    client.interceptors.request.use(
+      async (config) => {
+        // Resolved first: a request that cannot be signed uses no budget
+        const credentials = requiresL2Auth(config.method ?? 'get', config.url ?? '')
+          ? await this.getL2Credentials(config.url, (config as SignedRequestConfig).credentials)
+          : null;
+
+        const breaker = this.getBreaker(config.url);
+        if (breaker && !breaker.tryAcquire()) {
+          const { key, nextProbeAt } = breaker.getStatus();
+          throw createApiError(
+            'SERVICE_UNAVAILABLE',
+            `Circuit breaker open for ${key} endpoints`,
+            503,
+            { circuit: key, nextProbeAt }
+          );
+        }
+
+        try {
+          await this.rateLimiter.acquire(endpointGroupFor(config.url ?? ''), config.signal as AbortSignal | undefined);
+        } catch {
+          // Aborted while queued; it never reached the server
+          breaker?.release();
+          throw createCancelledError({ url: config.url });
+        }
+
+        if (credentials) {
+          // Sign exactly the body that is sent; axios would serialize it after this point
+          if (config.data !== undefined && typeof config.data !== 'string') {
+            config.data = JSON.stringify(config.data);
+          }
+          const headers = createL2Headers(credentials, {
+            method: config.method ?? 'get',
+            path: requestPath(config.url ?? ''),
+            body: config.data,
+            timestamp: Math.floor(Date.now() / 1000),
+          });
+          Object.entries(headers).forEach(([name, value]) => config.headers.set(name, value));
+        }
+
         if (this.config.debug) {
           console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
         }
@@ -102,7 +342,7 @@ export class ApiClient {
     );
 
     // Response interceptor
-    this.client.interceptors.response.use(
+    client.interceptors.response.use(
       (response) => {
         // Update rate limit info from headers
         this.updateRateLimitInfo(response);
@@ -114,48 +354,229 @@ export class ApiClient {
         return response;
       },
       (error) => {
+        // Already converted by the interceptor chain of a retried request
+        if (error instanceof ApiError) {
+          return Promise.reject(error);
+        }
+
+        if (error.response) {
+          this.updateRateLimitInfo(error.response);
+        }
+
         if (this.config.debug) {
           console.error('API Response Error:', error.response?.status, error.message);
         }
         
         // Convert axios error to our custom error
-        return Promise.reject(handleApiError(error));
+        const apiError = handleApiError(error);
+        const config = error.config as TrackedRequestConfig | undefined;
+        apiError.retries = config?.['axios-retry']?.retryCount ?? 0;
+        apiError.retryWaitMs = config?.retryWaitMs ?? 0;
+        return Promise.reject(apiError);
       }
     );
   }
 
+  /**
+   * Credentials for signing, or an UNAUTHORIZED error naming the missing ones
+   */
+  private async getL2Credentials(
+    url: string | undefined,
+    provider: CredentialsProvider | undefined = this.config.credentials
+  ): Promise<L2Credentials> {
+    const credentials = await provider?.getCredentials();
+    const missing = missingCredentials(credentials);
+    if (!credentials || missing.length > 0) {
+      throw createApiError(
+        'UNAUTHORIZED',
+        provider
+          ? `Missing L2 credentials for ${url}: ${missing.join(', ')}`
+          : `No credentials provider configured for ${url}`,
+        401,
+        { missingCredentials: missing }
+      );
+    }
+    return credentials as L2Credentials;
+  }
+
+  /**
+   * Wait advertised by a 429 or 503 response, if any
+   */
+  private getRetryAfter(error: AxiosError): number | null {
+    const status = error.response?.status;
+    if (status !== 429 && status !== 503) return null;
+    return parseRetryAfter(error.response?.headers?.['retry-after']);
+  }
+
   private updateRateLimitInfo(response: AxiosResponse): void {
     const headers = response.headers;
+    const retryAfter = response.status === 429 ? parseRetryAfter(headers['retry-after']) : null;
+    if (retryAfter !== null) {
+      // Hold the other requests of the group until the server lets us back in
+      const group = endpointGroupFor(response.config?.url ?? '');
+      this.rateLimiter.update(group, {
+        limit: parseInt(headers['x-ratelimit-limit'], 10) || 0,
+        remaining: 0,
+        resetTime: Date.now() + retryAfter,
+        resetIn: Math.ceil(retryAfter / 1000),
+        exceeded: true,
+        queued: this.rateLimiter.getQueueDepth(group),
+      });
+      return;
+    }
+
     if (headers['x-ratelimit-limit'] && headers['x-ratelimit-remaining']) {
-      this.rateLimitInfo = {
+      // The reset header is in epoch seconds
+      const reset = parseInt(headers['x-ratelimit-reset'], 10);
+      const resetTime = reset ? reset * 1000 : Date.now() + 60000;
+      const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+      const group = endpointGroupFor(response.config?.url ?? '');
+
+      this.rateLimiter.update(group, {
         limit: parseInt(headers['x-ratelimit-limit'], 10),
-        remaining: parseInt(headers['x-ratelimit-remaining'], 10),
-        resetTime: parseInt(headers['x-ratelimit-reset'], 10) || Date.now() + 60000,
-        resetIn: Math.max(0, parseInt(headers['x-ratelimit-reset'], 10) - Math.floor(Date.now() / 1000)),
-        exceeded: parseInt(headers['x-ratelimit-remaining'], 10) <= 0,
-      };
+        remaining,
+        resetTime,
+        resetIn: Math.max(0, Math.ceil((resetTime - Date.now()) / 1000)),
+        exceeded: remaining <= 0,
+        queued: this.rateLimiter.getQueueDepth(group),
+      });
     }
   }
 
   /**
-   * Get current rate limit information
+   * Get current rate limit information for an endpoint group. Without a
+   * group, reports the group closest to its limit, with the queue depth
+   * across all groups.
    */
-  public getRateLimitInfo(): RateLimitInfo | null {
-    return this.rateLimitInfo;
+  public getRateLimitInfo(group?: EndpointGroup): RateLimitInfo {
+    if (group) return this.rateLimiter.getInfo(group);
+
+    const infos = (Object.keys(DEFAULT_RATE_LIMITS) as EndpointGroup[]).map(key => this.rateLimiter.getInfo(key));
+    const tightest = infos.reduce((a, b) => (b.remaining / b.limit < a.remaining / a.limit ? b : a));
+    return { ...tightest, queued: this.rateLimiter.getQueueDepth() };
   }
 
   /**
-   * Generic GET request with validation
+   * Generic GET request with validation. Identical concurrent GETs share one
+   * request, and endpoints with a cache policy are served from the cache
+   * unless `fresh` is set. Like the other verbs, it honours `signal` and
+   * `timeout` in the config.
    */
-  public async get<T>(url: string, schema?: z.ZodType<T>, config?: AxiosRequestConfig): Promise<T> {
+  public async get<T>(url: string, schema?: z.ZodType<T>, getConfig?: GetRequestConfig): Promise<T> {
+    const { fresh, ...config } = getConfig ?? {};
     try {
-      const response = await this.client.get(url, config);
-      return this.validateAndTransform(response.data, schema);
+      if (config.signal?.aborted) {
+        throw createCancelledError({ url });
+      }
+
+      if (config.credentials || ApiClient.isSigned(config)) {
+        // Signed for the caller's own account, so never shared or cached
+        const response = await this.send('GET', url, config);
+        return this.validateAndTransform(response.data, schema);
+      }
+
+      const key = ApiClient.requestKey(url, config);
+      const policy = this.getCachePolicy(url);
+
+      if (policy && !fresh) {
+        const cached = await this.cache.lookup(key);
+        if (cached.state === 'fresh') {
+          return this.validateAndTransform(cached.value, schema);
+        }
+        if (cached.state === 'stale') {
+          // Serve the stale copy now and refresh it for the next caller
+          this.fetchShared(key, url, config, policy, schema).catch((error) => {
+            if (this.config.debug) {
+              console.warn(`Background revalidation of ${url} failed:`, error);
+            }
+          });
+          return this.validateAndTransform(cached.value, schema);
+        }
+      }
+
+      const data = await this.fetchShared(key, url, config, policy, schema);
+      return this.validateAndTransform(data, schema);
     } catch (error: unknown) {
       throw this.enhanceError(error, 'GET', url);
     }
   }
 
+  /**
+   * Drop cached GET responses whose key (the request URL) starts with
+   * `prefix`; everything when no prefix is given
+   */
+  public invalidateCache(prefix = ''): Promise<number> {
+    return this.cache.invalidate(prefix);
+  }
+
+  private fetchShared<T>(
+    key: string,
+    url: string,
+    config: AxiosRequestConfig | undefined,
+    policy: CachePolicy | null,
+    schema?: z.ZodType<T>
+  ): Promise<unknown> {
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = this.send('GET', url, { ...config, signal: controller.signal })
+        .then(async (response) => {
+          if (policy) {
+            // Only cache what passes validation
+            this.validateAndTransform(response.data, schema);
+            await this.cache.store(key, response.data, policy);
+          }
+          return response.data as unknown;
+        })
+        .finally(() => {
+          // The map is reset when the client is reconfigured
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+        });
+      const request: SharedRequest = { promise, controller, waiters: 0 };
+      shared = request;
+      this.inFlight.set(key, request);
+    }
+
+    return this.waitForShared(shared, url, config?.signal as AbortSignal | undefined);
+  }
+
+  private waitForShared(shared: SharedRequest, url: string, signal?: AbortSignal): Promise<unknown> {
+    shared.waiters++;
+    if (!signal) return shared.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (--shared.waiters === 0) {
+          shared.controller.abort();
+        }
+        reject(createCancelledError({ url }));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private getCachePolicy(url: string): CachePolicy | null {
+    const path = url.split('?')[0];
+    const prefix = Object.keys(this.config.cachePolicies ?? {})
+      .filter(candidate => path.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix !== undefined ? this.config.cachePolicies?.[prefix] ?? null : null;
+  }
+
+  // L1-signed requests (API key creation and derivation) carry their signature in the config
+  private static isSigned(config: AxiosRequestConfig): boolean {
+    return AxiosHeaders.from(config.headers as AxiosHeaders | undefined).has('POLY_SIGNATURE');
+  }
+
+  private static requestKey(url: string, config?: AxiosRequestConfig): string {
+    return config?.params ? `${url}#${JSON.stringify(config.params)}` : url;
+  }
+
   /**
    * Generic POST request with validation
    */
@@ -166,7 +587,7 @@ export class ApiClient {
     config?: AxiosRequestConfig
   ): Promise<T> {
     try {
-      const response = await this.client.post(url, data, config);
+      const response = await this.send('POST', url, config, data);
       return this.validateAndTransform(response.data, schema);
     } catch (error: unknown) {
       throw this.enhanceError(error, 'POST', url);
@@ -183,7 +604,7 @@ export class ApiClient {
     config?: AxiosRequestConfig
   ): Promise<T> {
     try {
-      const response = await this.client.put(url, data, config);
+      const response = await this.send('PUT', url, config, data);
       return this.validateAndTransform(response.data, schema);
     } catch (error: unknown) {
       throw this.enhanceError(error, 'PUT', url);
@@ -195,13 +616,67 @@ export class ApiClient {
    */
   public async delete<T>(url: string, schema?: z.ZodType<T>, config?: AxiosRequestConfig): Promise<T> {
     try {
-      const response = await this.client.delete(url, config);
+      const response = await this.send('DELETE', url, config);
       return this.validateAndTransform(response.data, schema);
     } catch (error: unknown) {
       throw this.enhanceError(error, 'DELETE', url);
     }
   }
 
+  /**
+   * Send one request through the transport and report its outcome to the
+   * telemetry sinks
+   */
+  private async send(
+    method: string,
+    url: string,
+    config?: AxiosRequestConfig,
+    data?: unknown
+  ): Promise<AxiosResponse> {
+    const startedAt = Date.now();
+    const report = (event: Pick<RequestTelemetryEvent, 'status' | 'retries' | 'bytes' | 'errorCode'>) =>
+      this.reportTelemetry({
+        method,
+        endpoint: endpointTemplate(url),
+        url,
+        durationMs: Date.now() - startedAt,
+        startedAt,
+        ...event,
+      });
+
+    try {
+      // DELETE bodies come in the config
+      const response = await this.client.request({ ...config, method, url, data: data ?? config?.data });
+      report({
+        status: response.status,
+        retries: (response.config as TrackedRequestConfig)['axios-retry']?.retryCount ?? 0,
+        bytes: responseBytes(response),
+      });
+      return response;
+    } catch (error) {
+      const apiError = this.enhanceError(error, method, url);
+      report({ status: apiError.status, retries: apiError.retries, bytes: 0, errorCode: apiError.code });
+      throw apiError;
+    }
+  }
+
+  private reportTelemetry(event: RequestTelemetryEvent): void {
+    [this.latency, ...(this.config.telemetry ?? [])].forEach((sink) => {
+      try {
+        sink.onRequest(event);
+      } catch (error) {
+        console.error('Telemetry sink failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Latency percentiles per endpoint over recent requests, slowest first
+   */
+  public getLatencyStats(): EndpointLatencyStats[] {
+    return this.latency.getStats();
+  }
+
   /**
    * Validate and transform response data
    */
@@ -246,10 +721,30 @@ export class ApiClient {
   }
 
   /**
-   * Check if the client is healthy (not rate limited, etc.)
+   * Circuit breaker state of every endpoint group used so far
+   */
+  public getCircuitStatus(): CircuitBreakerStatus[] {
+    return [...this.breakers.values()].map(breaker => breaker.getStatus());
+  }
+
+  /**
+   * Listen to client events; returns a function that removes the listener
+   */
+  public on<K extends keyof ApiClientEvents>(event: K, listener: EventListener<ApiClientEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Check if the client is healthy: every circuit breaker is closed, no
+   * endpoint group is blocked by the server, and no queue holds more than a
+   * full window of requests
    */
   public isHealthy(): boolean {
-    return !this.rateLimitInfo?.exceeded;
+    return this.getCircuitStatus().every(status => status.state === 'closed') &&
+      (Object.keys(DEFAULT_RATE_LIMITS) as EndpointGroup[]).every(group =>
+        !this.rateLimiter.isBlocked(group) &&
+        this.rateLimiter.getQueueDepth(group) <= this.rateLimiter.getInfo(group).limit
+      );
   }
 
   /**
@@ -260,12 +755,47 @@ export class ApiClient {
   }
 
   /**
-   * Update client configuration
+   * Update client configuration. The transport and retry policy are rebuilt
+   * from the new config. The rate limiter and retry budget are rebuilt only
+   * when their settings are updated, so limits and blocks learned from the
+   * server's 429s survive unrelated updates. On a base URL or cache store
+   * change, cached responses and circuit breaker state of the old server are
+   * dropped too. Requests already in flight finish on the old transport.
    */
   public updateConfig(updates: Partial<ApiClientConfig>): void {
+    const serverChanged = updates.baseUrl !== undefined && updates.baseUrl !== this.config.baseUrl;
     this.config = { ...this.config, ...updates };
-    // Note: This doesn't recreate the axios instance
-    // For base URL changes, you'd need to create a new client
+
+    if ('rateLimit' in updates || 'rateLimits' in updates) {
+      this.rateLimiter = this.createRateLimiter();
+    }
+    if ('retryBudget' in updates) {
+      this.retryBudget = new RetryBudget(this.config.retryBudget ?? DEFAULT_RETRY_BUDGET);
+    }
+    if (serverChanged || 'cacheStore' in updates) {
+      this.cache = new ResponseCache({ persistent: this.config.cacheStore });
+      this.inFlight.clear();
+    }
+    if (serverChanged || 'circuitBreaker' in updates) {
+      this.resetCircuitBreakers();
+    }
+    this.client = this.createTransport();
+  }
+
+  // Report open breakers as closed before dropping them, so the UI leaves degraded mode
+  private resetCircuitBreakers(): void {
+    const breakers = [...this.breakers.values()];
+    this.breakers.clear();
+    breakers
+      .map(breaker => breaker.getStatus())
+      .filter(status => status.state !== 'closed')
+      .forEach(status => this.events.emit('circuit', {
+        ...status,
+        state: 'closed',
+        failures: 0,
+        openedAt: null,
+        nextProbeAt: null,
+      }));
   }
 }
 
@@ -274,4 +804,14 @@ export const apiClient = new ApiClient();
 
 // Re-export the specific client implementations
 export { polymarketClient as default, fetchOrderBook, fetchMarket, PolymarketClient } from './polymarket';
-export { OrderBookSocket } from './websocket';
\ No newline at end of file
+export { OrderBookSocket } from './websocket';
+export { MarketSocketManager, marketSocketManager } from './socketManager';
+export { SharedMarketFeed, sharedMarketFeed } from './sharedFeed';
+export { UserChannelSocket } from './userSocket';
+export { NdjsonRecorder } from './recorder';
+export { SessionReplay } from './replay';
+export { apiEnvironment, API_ENVIRONMENTS } from './environment';
+export { StaticCredentialsProvider, InjectedWalletSigner } from './auth';
+export { PrivateKeySigner } from './privateKeySigner';
+export { OrdersClient } from './orders';
+export { MemoryCredentialStore, EncryptedLocalStorageCredentialStore } from './credentialStore';
\ No newline at end of file
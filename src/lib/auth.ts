@@ -0,0 +1,254 @@
+// File: src/lib/auth.ts
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { ENDPOINTS } from './endpoints';
+import type { L2Credentials } from '@/types/user';
+
+/**
+ * Source of the L2 credentials used to sign authenticated requests. Fields
+ * may be missing until the user has provided them.
+ */
+export interface CredentialsProvider {
+  getCredentials(): Partial<L2Credentials> | null | Promise<Partial<L2Credentials> | null>;
+}
+
+/**
+ * Credentials provider holding a fixed set of credentials
+ */
+export class StaticCredentialsProvider implements CredentialsProvider {
+  constructor(private credentials: Partial<L2Credentials> | null = null) {}
+
+  public getCredentials(): Partial<L2Credentials> | null {
+    return this.credentials;
+  }
+
+  public setCredentials(credentials: Partial<L2Credentials> | null): void {
+    this.credentials = credentials;
+  }
+}
+
+/**
+ * Headers of an L2-authenticated request
+ */
+export interface L2Headers {
+  POLY_ADDRESS: string;
+  POLY_SIGNATURE: string;
+  POLY_TIMESTAMP: string;
+  POLY_API_KEY: string;
+  POLY_PASSPHRASE: string;
+}
+
+/**
+ * Headers of an L1-authenticated request, signed by the account's wallet
+ */
+export interface L1Headers {
+  POLY_ADDRESS: string;
+  POLY_SIGNATURE: string;
+  POLY_TIMESTAMP: string;
+  POLY_NONCE: string;
+}
+
+/**
+ * EIP-712 typed data, in the JSON shape of eth_signTypedData_v4
+ */
+export interface TypedData {
+  domain: Record<string, string | number>;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Wallet that signs EIP-712 typed data for an account. Keys never pass
+ * through this app; signing is left to the wallet.
+ */
+export interface WalletSigner {
+  getAddress(): Promise<string>;
+  signTypedData(data: TypedData): Promise<string>;
+}
+
+/**
+ * Minimal EIP-1193 provider, as injected by browser wallets
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * Signer backed by an injected browser wallet such as `window.ethereum`
+ */
+export class InjectedWalletSigner implements WalletSigner {
+  private address: string | null = null;
+
+  constructor(private provider: Eip1193Provider) {}
+
+  public async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = await this.provider.request({ method: 'eth_requestAccounts' });
+      if (!Array.isArray(accounts) || typeof accounts[0] !== 'string') {
+        throw new Error('Wallet returned no accounts');
+      }
+      this.address = accounts[0];
+    }
+    return this.address;
+  }
+
+  public async signTypedData(data: TypedData): Promise<string> {
+    const address = await this.getAddress();
+    const signature = await this.provider.request({
+      method: 'eth_signTypedData_v4',
+      params: [address, JSON.stringify(data)],
+    });
+    if (typeof signature !== 'string') {
+      throw new Error('Wallet returned no signature');
+    }
+    return signature;
+  }
+}
+
+const CLOB_AUTH_MESSAGE = 'This message attests that I control the given wallet';
+
+/**
+ * Typed data of the ClobAuth message proving control of an address
+ *
+ * @param timestamp - Unix time in seconds
+ */
+export function buildClobAuthTypedData(
+  address: string,
+  chainId: number,
+  timestamp: number,
+  nonce: number
+): TypedData {
+  return {
+    domain: { name: 'ClobAuthDomain', version: '1', chainId },
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+      ],
+      ClobAuth: [
+        { name: 'address', type: 'address' },
+        { name: 'timestamp', type: 'string' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'message', type: 'string' },
+      ],
+    },
+    primaryType: 'ClobAuth',
+    message: { address, timestamp: String(timestamp), nonce, message: CLOB_AUTH_MESSAGE },
+  };
+}
+
+/**
+ * L1 headers for creating or deriving API credentials; the wallet is asked
+ * to sign the ClobAuth message
+ *
+ * @param timestamp - Unix time in seconds
+ */
+export async function createL1Headers(
+  signer: WalletSigner,
+  request: { chainId: number; timestamp: number; nonce?: number }
+): Promise<L1Headers> {
+  const address = await signer.getAddress();
+  const nonce = request.nonce ?? 0;
+  const signature = await signer.signTypedData(
+    buildClobAuthTypedData(address, request.chainId, request.timestamp, nonce)
+  );
+  return {
+    POLY_ADDRESS: address,
+    POLY_SIGNATURE: signature,
+    POLY_TIMESTAMP: String(request.timestamp),
+    POLY_NONCE: String(nonce),
+  };
+}
+
+// Credentials in the order they are reported as missing
+const REQUIRED_CREDENTIALS: Array<keyof L2Credentials> = ['apiKey', 'secret', 'passphrase', 'address'];
+
+// Routes that require L2 headers; creating and deriving API keys is L1 (wallet) authenticated instead
+const L2_ROUTES: Array<[method: string, path: string | RegExp]> = [
+  ['GET', ENDPOINTS.GET_API_KEYS],
+  ['DELETE', ENDPOINTS.DELETE_API_KEY],
+  ['GET', ENDPOINTS.BAN_STATUS],
+  ['GET', ENDPOINTS.CLOSED_ONLY_MODE],
+  ['POST', ENDPOINTS.CREATE_ORDER],
+  ['DELETE', ENDPOINTS.CANCEL_ORDER],
+  ['DELETE', ENDPOINTS.CANCEL_ORDERS],
+  ['DELETE', ENDPOINTS.CANCEL_ALL_ORDERS],
+  ['DELETE', ENDPOINTS.CANCEL_MARKET_ORDERS],
+  ['GET', /^\/data\/order\/[^/]+$/],
+  ['GET', ENDPOINTS.GET_ORDERS],
+  ['GET', ENDPOINTS.GET_TRADES],
+  ['GET', ENDPOINTS.ORDER_SCORING],
+  ['POST', ENDPOINTS.ORDERS_SCORING],
+];
+
+/**
+ * Path of a request URL as it is signed: no origin, no query string
+ */
+export function requestPath(url: string): string {
+  return url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0] || '/';
+}
+
+/**
+ * Whether a request must carry L2 headers
+ */
+export function requiresL2Auth(method: string, url: string): boolean {
+  const path = requestPath(url);
+  const upperMethod = method.toUpperCase();
+  return L2_ROUTES.some(([routeMethod, route]) =>
+    routeMethod === upperMethod && (typeof route === 'string' ? route === path : route.test(path))
+  );
+}
+
+/**
+ * Names of the credentials that are missing for L2 signing
+ */
+export function missingCredentials(credentials: Partial<L2Credentials> | null | undefined): Array<keyof L2Credentials> {
+  return REQUIRED_CREDENTIALS.filter(name => !credentials?.[name]);
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * HMAC-SHA256 over `timestamp + method + path + body`, keyed with the
+ * base64url-decoded API secret and encoded as padded base64url
+ */
+export function buildL2Signature(
+  secret: string,
+  timestamp: number,
+  method: string,
+  path: string,
+  body?: string
+): string {
+  const message = `${timestamp}${method.toUpperCase()}${path}${body ?? ''}`;
+  return bytesToBase64Url(hmac(sha256, base64UrlToBytes(secret), utf8ToBytes(message)));
+}
+
+/**
+ * L2 headers for a request
+ *
+ * @param timestamp - Unix time in seconds
+ */
+export function createL2Headers(
+  credentials: L2Credentials,
+  request: { method: string; path: string; body?: string; timestamp: number }
+): L2Headers {
+  return {
+    POLY_ADDRESS: credentials.address,
+    POLY_SIGNATURE: buildL2Signature(credentials.secret, request.timestamp, request.method, request.path, request.body),
+    POLY_TIMESTAMP: String(request.timestamp),
+    POLY_API_KEY: credentials.apiKey,
+    POLY_PASSPHRASE: credentials.passphrase,
+  };
+}
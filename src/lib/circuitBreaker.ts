@@ -0,0 +1,110 @@
+// File: src/lib/circuitBreaker.ts
+import { systemClock } from './clock';
+import type { Clock } from './clock';
+import type { CircuitBreakerStatus, CircuitState } from '@/types/api';
+
+/**
+ * When a circuit breaker opens and how it probes for recovery
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the breaker */
+  failureThreshold: number;
+  /** Time an open breaker fails requests fast before letting a probe through */
+  probeIntervalMs: number;
+  /** Requests let through at once while half-open */
+  halfOpenProbes: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  probeIntervalMs: 30000,
+  halfOpenProbes: 1,
+};
+
+/**
+ * Circuit breaker for one endpoint group. After `failureThreshold`
+ * consecutive failures it opens and rejects requests without sending them;
+ * once `probeIntervalMs` has passed it lets probes through, closing again on
+ * the first success and reopening on a failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probesInFlight = 0;
+
+  constructor(
+    private key: string,
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER,
+    private onChange?: (status: CircuitBreakerStatus) => void,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Whether a request may be sent now. Every granted request must be
+   * followed by recordSuccess, recordFailure or release.
+   */
+  public tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.clock.now() < (this.openedAt ?? 0) + this.config.probeIntervalMs) return false;
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probesInFlight >= this.config.halfOpenProbes) return false;
+      this.probesInFlight++;
+    }
+    return true;
+  }
+
+  public recordSuccess(): void {
+    this.release();
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  public recordFailure(): void {
+    this.release();
+    this.failures++;
+    // A failed probe reopens right away; a closed breaker waits for the threshold
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.config.failureThreshold)) {
+      this.openedAt = this.clock.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Give back a granted request whose outcome says nothing about the
+   * server's health, such as a cancelled one
+   */
+  public release(): void {
+    if (this.state === 'half-open' && this.probesInFlight > 0) {
+      this.probesInFlight--;
+    }
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getStatus(): CircuitBreakerStatus {
+    return {
+      key: this.key,
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt,
+      nextProbeAt: this.state === 'open' && this.openedAt !== null
+        ? this.openedAt + this.config.probeIntervalMs
+        : null,
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.probesInFlight = 0;
+    this.onChange?.(this.getStatus());
+  }
+}
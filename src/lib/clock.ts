@@ -0,0 +1,31 @@
+// File: src/lib/clock.ts
+
+/**
+ * Handle returned by the clock's timer functions
+ */
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * Time source and timers, injectable so time-based behavior can be driven by
+ * fake timers in tests and staging
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by the global timer functions. Globals are looked up on every
+ * call so fake timers installed after import still take effect.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: (handle) => clearInterval(handle),
+};
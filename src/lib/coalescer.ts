@@ -0,0 +1,125 @@
+// File: src/lib/coalescer.ts
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+
+/**
+ * How often coalesced updates are published: once per animation frame, or
+ * at most once per the given number of milliseconds
+ */
+export type CoalesceMode = 'frame' | number;
+
+/**
+ * Options for UpdateCoalescer
+ */
+export interface UpdateCoalescerOptions {
+  /** Publish cadence (default: 'frame') */
+  mode?: CoalesceMode;
+  /**
+   * Longest a pending update waits in 'frame' mode. Browsers stop animation
+   * frames in background tabs, and a hidden tab may still be relaying the
+   * feed to others.
+   */
+  maxDelayMs?: number;
+  /** Time source and timers */
+  clock?: Clock;
+}
+
+// Frame callbacks are looked up lazily, like systemClock's timers
+const frameApi = () =>
+  typeof requestAnimationFrame === 'function' && typeof cancelAnimationFrame === 'function'
+    ? { request: requestAnimationFrame, cancel: cancelAnimationFrame }
+    : null;
+
+/**
+ * Collects items per key and hands each key's batch to `flush` at most once
+ * per animation frame or interval, however many items arrive in between
+ */
+export class UpdateCoalescer<T> {
+  private mode: CoalesceMode;
+  private maxDelayMs: number;
+  private clock: Clock;
+  private onFlush: (key: string, items: T[]) => void;
+  private pending = new Map<string, T[]>();
+  private timer: TimerHandle | null = null;
+  private frame: number | null = null;
+
+  constructor(onFlush: (key: string, items: T[]) => void, options: UpdateCoalescerOptions = {}) {
+    this.onFlush = onFlush;
+    this.mode = options.mode ?? 'frame';
+    this.maxDelayMs = options.maxDelayMs ?? 100; // NFR: < 100 ms UI update
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Queue an item; the next flush publishes it with everything else pending
+   * for its key
+   */
+  public add(key: string, item: T): void {
+    const items = this.pending.get(key);
+    if (items) {
+      items.push(item);
+    } else {
+      this.pending.set(key, [item]);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Publish everything pending right away
+   */
+  public flush(): void {
+    this.cancelSchedule();
+    const batches = [...this.pending];
+    this.pending.clear();
+    batches.forEach(([key, items]) => this.onFlush(key, items));
+  }
+
+  /**
+   * Drop pending items for one key, or for all keys
+   */
+  public clear(key?: string): void {
+    if (key === undefined) {
+      this.pending.clear();
+    } else {
+      this.pending.delete(key);
+    }
+    if (this.pending.size === 0) this.cancelSchedule();
+  }
+
+  /**
+   * Number of items waiting for the next flush
+   */
+  public getPendingCount(): number {
+    let count = 0;
+    this.pending.forEach(items => {
+      count += items.length;
+    });
+    return count;
+  }
+
+  private schedule(): void {
+    if (this.timer !== null || this.frame !== null) return;
+
+    if (typeof this.mode === 'number') {
+      this.timer = this.clock.setTimeout(() => this.flush(), this.mode);
+      return;
+    }
+
+    const frames = frameApi();
+    if (frames) {
+      this.frame = frames.request(() => this.flush());
+    }
+    this.timer = this.clock.setTimeout(() => this.flush(), this.maxDelayMs);
+  }
+
+  private cancelSchedule(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.frame !== null) {
+      frameApi()?.cancel(this.frame);
+      this.frame = null;
+    }
+  }
+}
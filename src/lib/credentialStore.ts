@@ -0,0 +1,197 @@
+// File: src/lib/credentialStore.ts
+import type { CredentialsProvider } from './auth';
+import type { L2Credentials } from '@/types/user';
+
+/**
+ * Credentials provider that also keeps the credentials, so the account is
+ * onboarded once instead of on every visit
+ */
+export interface CredentialStore extends CredentialsProvider {
+  getCredentials(): Promise<L2Credentials | null>;
+  save(credentials: L2Credentials): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Credential store in memory, forgotten on reload
+ */
+export class MemoryCredentialStore implements CredentialStore {
+  private credentials: L2Credentials | null = null;
+
+  public async getCredentials(): Promise<L2Credentials | null> {
+    return this.credentials;
+  }
+
+  public async save(credentials: L2Credentials): Promise<void> {
+    this.credentials = { ...credentials };
+  }
+
+  public async clear(): Promise<void> {
+    this.credentials = null;
+  }
+}
+
+/**
+ * What is kept in localStorage; binary fields are base64
+ */
+interface EncryptedCredentials {
+  v: 1;
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Credential store in localStorage, encrypted with AES-GCM under a key
+ * derived (PBKDF2-SHA256) from a password the user chooses. It starts
+ * locked: getCredentials() returns null until unlock() is called with the
+ * password, and the decrypted credentials are then only held in memory.
+ */
+export class EncryptedLocalStorageCredentialStore implements CredentialStore {
+  private key: CryptoKey | null = null;
+  /** Salt and iteration count the key was derived with */
+  private keyParams: { salt: Uint8Array; iterations: number } | null = null;
+  private credentials: L2Credentials | null = null;
+  private storageKey: string;
+  private storage: Storage;
+  private iterations: number;
+  private webCrypto?: Crypto;
+
+  constructor(options: {
+    storageKey?: string;
+    storage?: Storage;
+    /** PBKDF2 iterations for newly saved credentials */
+    iterations?: number;
+    /** Web Crypto implementation (default: globalThis.crypto) */
+    crypto?: Crypto;
+  } = {}) {
+    this.storageKey = options.storageKey ?? 'polymarket-credentials';
+    this.storage = options.storage ?? localStorage;
+    this.iterations = options.iterations ?? 600000;
+    this.webCrypto = options.crypto;
+  }
+
+  /**
+   * Whether credentials were saved on this device, locked or not
+   */
+  public hasSavedCredentials(): boolean {
+    return this.readStored() !== null;
+  }
+
+  public isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Derive the key from `password` and decrypt the saved credentials, if
+   * any. Rejects, staying locked, when the password is wrong.
+   */
+  public async unlock(password: string): Promise<L2Credentials | null> {
+    const stored = this.readStored();
+    const salt = stored ? fromBase64(stored.salt) : this.crypto.getRandomValues(new Uint8Array(16));
+    const iterations = stored?.iterations ?? this.iterations;
+    const key = await this.deriveKey(password, salt, iterations);
+
+    let credentials: L2Credentials | null = null;
+    if (stored) {
+      try {
+        const plaintext = await this.crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+          key,
+          fromBase64(stored.data)
+        );
+        credentials = JSON.parse(new TextDecoder().decode(plaintext)) as L2Credentials;
+      } catch {
+        throw new Error('Wrong password for the saved credentials');
+      }
+    }
+
+    this.key = key;
+    this.keyParams = { salt, iterations };
+    this.credentials = credentials;
+    return credentials;
+  }
+
+  /**
+   * Forget the key and the decrypted credentials; the saved ones stay
+   */
+  public lock(): void {
+    this.key = null;
+    this.keyParams = null;
+    this.credentials = null;
+  }
+
+  public async getCredentials(): Promise<L2Credentials | null> {
+    return this.credentials;
+  }
+
+  /**
+   * Encrypt and save credentials; the store must be unlocked
+   */
+  public async save(credentials: L2Credentials): Promise<void> {
+    if (!this.key || !this.keyParams) {
+      throw new Error('Unlock the credential store before saving credentials');
+    }
+
+    const iv = this.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await this.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(credentials))
+    );
+    const stored: EncryptedCredentials = {
+      v: 1,
+      salt: toBase64(this.keyParams.salt),
+      iv: toBase64(iv),
+      iterations: this.keyParams.iterations,
+      data: toBase64(new Uint8Array(ciphertext)),
+    };
+
+    this.storage.setItem(this.storageKey, JSON.stringify(stored));
+    this.credentials = { ...credentials };
+  }
+
+  /**
+   * Delete the saved credentials and lock the store
+   */
+  public async clear(): Promise<void> {
+    this.storage.removeItem(this.storageKey);
+    this.lock();
+  }
+
+  private get crypto(): Crypto {
+    return this.webCrypto ?? globalThis.crypto;
+  }
+
+  private async deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await this.crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(password),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return this.crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private readStored(): EncryptedCredentials | null {
+    const raw = this.storage.getItem(this.storageKey);
+    if (!raw) return null;
+    try {
+      const stored = JSON.parse(raw) as EncryptedCredentials;
+      return stored.v === 1 ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// File: src/lib/eip712.ts
+import { keccak_256 } from '@noble/hashes/sha3';
+import { concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { TypedData } from './auth';
+
+type TypeFields = TypedData['types'][string];
+
+// Domain fields in the order EIP-712 defines them
+const DOMAIN_FIELDS: TypeFields = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' },
+];
+
+const strip0x = (hex: string) => (hex.startsWith('0x') ? hex.slice(2) : hex);
+
+/**
+ * Big-endian 32-byte word of an unsigned integer
+ */
+export function toWord(value: bigint): Uint8Array {
+  return hexToBytes(BigInt.asUintN(256, value).toString(16).padStart(64, '0'));
+}
+
+// Struct types referenced by `primaryType`, itself first and the rest sorted by name
+function dependencies(primaryType: string, types: TypedData['types'], found = new Set<string>()): string[] {
+  const base = primaryType.replace(/\[\d*\]$/, '');
+  if (found.has(base) || !types[base]) return [...found];
+  found.add(base);
+  types[base].forEach(field => dependencies(field.type, types, found));
+  return [...found];
+}
+
+function encodeType(primaryType: string, types: TypedData['types']): string {
+  const [primary, ...rest] = dependencies(primaryType, types);
+  return [primary, ...rest.sort()]
+    .map(name => `${name}(${types[name].map(field => `${field.type} ${field.name}`).join(',')})`)
+    .join('');
+}
+
+function encodeValue(type: string, value: unknown, types: TypedData['types']): Uint8Array {
+  if (types[type]) {
+    return hashStruct(type, value as Record<string, unknown>, types);
+  }
+  if (type.endsWith(']')) {
+    const itemType = type.slice(0, type.lastIndexOf('['));
+    return keccak_256(concatBytes(...(value as unknown[]).map(item => encodeValue(itemType, item, types))));
+  }
+  if (type === 'string') return keccak_256(utf8ToBytes(String(value)));
+  if (type === 'bytes') return keccak_256(hexToBytes(strip0x(String(value))));
+  if (type === 'bool') return toWord(value ? BigInt(1) : BigInt(0));
+  if (type === 'address' || /^u?int\d*$/.test(type)) return toWord(BigInt(value as string | number));
+  if (/^bytes\d+$/.test(type)) return hexToBytes(strip0x(String(value)).padEnd(64, '0'));
+
+  throw new Error(`Unsupported EIP-712 type "${type}"`);
+}
+
+function hashStruct(primaryType: string, data: Record<string, unknown>, types: TypedData['types']): Uint8Array {
+  return keccak_256(concatBytes(
+    keccak_256(utf8ToBytes(encodeType(primaryType, types))),
+    ...types[primaryType].map(field => encodeValue(field.type, data[field.name], types))
+  ));
+}
+
+/**
+ * Digest a wallet signs for EIP-712 typed data:
+ * `keccak256(0x1901 ‖ domainSeparator ‖ hashStruct(message))`
+ */
+export function hashTypedData(data: TypedData): Uint8Array {
+  const types = {
+    ...data.types,
+    EIP712Domain: data.types.EIP712Domain ?? DOMAIN_FIELDS.filter(field => data.domain[field.name] !== undefined),
+  };
+
+  return keccak_256(concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashStruct('EIP712Domain', data.domain, types),
+    hashStruct(data.primaryType, data.message, types)
+  ));
+}
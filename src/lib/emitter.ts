@@ -0,0 +1,83 @@
+// File: src/lib/emitter.ts
+
+/**
+ * Listener for the payload of one event
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload
+ * type, so listeners and emitted payloads are checked against each other.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+  private onListenerError: (error: unknown, event: keyof Events) => void;
+
+  /**
+   * @param onListenerError - Called when a listener throws; the remaining
+   *   listeners still receive the event
+   */
+  constructor(onListenerError?: (error: unknown, event: keyof Events) => void) {
+    this.onListenerError = onListenerError ?? ((error, event) => {
+      console.error(`Error in ${String(event)} listener:`, error);
+    });
+  }
+
+  /**
+   * Add a listener; returns a function that removes it again
+   */
+  public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let eventListeners = this.listeners.get(event);
+    if (!eventListeners) {
+      eventListeners = new Set();
+      this.listeners.set(event, eventListeners);
+    }
+    eventListeners.add(listener as EventListener<never>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const remove = this.on(event, (payload) => {
+      remove();
+      listener(payload);
+    });
+    return remove;
+  }
+
+  public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    const eventListeners = this.listeners.get(event);
+    if (!eventListeners) return;
+
+    eventListeners.delete(listener as EventListener<never>);
+    if (eventListeners.size === 0) this.listeners.delete(event);
+  }
+
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const eventListeners = this.listeners.get(event);
+    if (!eventListeners) return;
+
+    // Listeners added or removed during the emit take effect next time
+    [...eventListeners].forEach((listener) => {
+      try {
+        (listener as EventListener<Events[K]>)(payload);
+      } catch (error) {
+        this.onListenerError(error, event);
+      }
+    });
+  }
+
+  public listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  public removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
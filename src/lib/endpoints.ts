@@ -67,6 +67,8 @@ export const ENDPOINTS = {
     TIMEOUT: 10000,
     RETRY_ATTEMPTS: 3,
     RETRY_DELAY: 1000,
+    // Polygon mainnet, where the exchange contracts live
+    CHAIN_ID: 137,
   } as const;
   
   /**
@@ -77,8 +79,11 @@ export const ENDPOINTS = {
   }
   
   /**
-   * Build WebSocket URL  
+   * Build WebSocket URL, optionally for a specific channel
    */
-  export function buildWsUrl(): string {
-    return WS_ENDPOINTS.BASE_URL;
+  export function buildWsUrl(
+    channel?: typeof WS_ENDPOINTS.MARKET_CHANNEL | typeof WS_ENDPOINTS.USER_CHANNEL,
+    baseUrl: string = WS_ENDPOINTS.BASE_URL
+  ): string {
+    return channel ? `${baseUrl}${channel}` : baseUrl;
   }
\ No newline at end of file
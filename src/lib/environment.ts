@@ -0,0 +1,115 @@
+// File: src/lib/environment.ts
+import { API_CONFIG } from './endpoints';
+import { TypedEventEmitter } from './emitter';
+
+/**
+ * Named CLOB deployments the app can talk to
+ */
+export type ApiEnvironmentName = 'prod' | 'staging' | 'local';
+
+/**
+ * REST and WebSocket base URLs of one CLOB deployment. They always switch
+ * together, so the book snapshot and its live deltas come from the same place.
+ */
+export interface ApiEnvironment {
+  name: ApiEnvironmentName;
+  /** REST base URL, without a trailing slash */
+  restUrl: string;
+  /** WebSocket base URL; channel names are appended to it */
+  wsUrl: string;
+  /** Chain that signed messages are bound to (default: API_CONFIG.CHAIN_ID) */
+  chainId?: number;
+}
+
+export const API_ENVIRONMENTS: Record<ApiEnvironmentName, ApiEnvironment> = {
+  prod: {
+    name: 'prod',
+    restUrl: API_CONFIG.BASE_URL,
+    wsUrl: API_CONFIG.WS_BASE_URL,
+    chainId: API_CONFIG.CHAIN_ID,
+  },
+  staging: {
+    name: 'staging',
+    restUrl: 'https://clob-staging.polymarket.com',
+    wsUrl: 'wss://ws-subscriptions-clob-staging.polymarket.com/ws/',
+    // Polygon Amoy testnet
+    chainId: 80002,
+  },
+  // A stand-in CLOB running next to the dev server
+  local: {
+    name: 'local',
+    restUrl: 'http://localhost:8080',
+    wsUrl: 'ws://localhost:8080/ws/',
+    chainId: API_CONFIG.CHAIN_ID,
+  },
+};
+
+const isEnvironmentName = (name: unknown): name is ApiEnvironmentName =>
+  typeof name === 'string' && name in API_ENVIRONMENTS;
+
+/**
+ * Environment selected by the build: NEXT_PUBLIC_POLYMARKET_ENV names it
+ * (default: prod), and NEXT_PUBLIC_POLYMARKET_API_URL /
+ * NEXT_PUBLIC_POLYMARKET_WS_URL override its URLs.
+ */
+export function environmentFromEnv(): ApiEnvironment {
+  // Next.js only inlines NEXT_PUBLIC_ variables that are read literally
+  const name = process.env.NEXT_PUBLIC_POLYMARKET_ENV;
+  const base = API_ENVIRONMENTS[isEnvironmentName(name) ? name : 'prod'];
+  if (name && !isEnvironmentName(name)) {
+    console.warn(`Unknown API environment "${name}", using ${base.name}`);
+  }
+
+  return {
+    ...base,
+    restUrl: process.env.NEXT_PUBLIC_POLYMARKET_API_URL || base.restUrl,
+    wsUrl: process.env.NEXT_PUBLIC_POLYMARKET_WS_URL || base.wsUrl,
+  };
+}
+
+interface ApiEnvironmentEvents {
+  change: ApiEnvironment;
+}
+
+/**
+ * Holds the environment the app currently talks to and notifies the REST
+ * client and the sockets when it is switched at runtime
+ */
+export class ApiEnvironmentManager {
+  private environment: ApiEnvironment;
+  private events = new TypedEventEmitter<ApiEnvironmentEvents>();
+
+  constructor(initial: ApiEnvironment = environmentFromEnv()) {
+    this.environment = initial;
+  }
+
+  public get(): ApiEnvironment {
+    return this.environment;
+  }
+
+  /**
+   * Switch to a named environment, or to custom URLs
+   */
+  public set(environment: ApiEnvironmentName | ApiEnvironment): void {
+    const next = typeof environment === 'string' ? API_ENVIRONMENTS[environment] : environment;
+    if (!next) {
+      throw new Error(`Unknown API environment "${String(environment)}"`);
+    }
+    if (next.restUrl === this.environment.restUrl && next.wsUrl === this.environment.wsUrl) {
+      this.environment = next;
+      return;
+    }
+
+    this.environment = next;
+    this.events.emit('change', next);
+  }
+
+  /**
+   * Listen to environment switches; returns a function that removes the listener
+   */
+  public onChange(listener: (environment: ApiEnvironment) => void): () => void {
+    return this.events.on('change', listener);
+  }
+}
+
+export const apiEnvironment = new ApiEnvironmentManager();
@@ -1,4 +1,5 @@
 // File: src/lib/errors.ts - COMPLETELY REWRITTEN to fix all ESLint errors
+import { parseRetryAfter } from './retry';
 
 // Define our own AxiosError interface since we can't rely on axios exports
 interface AxiosError extends Error {
@@ -23,6 +24,10 @@ interface AxiosError extends Error {
     public readonly details?: Record<string, unknown>;
     public readonly retryable: boolean;
     public readonly timestamp: number;
+    /** Retries spent on the request before it failed (filled in by ApiClient) */
+    public retries = 0;
+    /** Total time spent waiting between those retries, in milliseconds */
+    public retryWaitMs = 0;
   
     constructor(
       code: string,
@@ -57,6 +62,8 @@ interface AxiosError extends Error {
         details: this.details,
         retryable: this.retryable,
         timestamp: this.timestamp,
+        retries: this.retries,
+        retryWaitMs: this.retryWaitMs,
         stack: this.stack,
       };
     }
@@ -84,6 +91,7 @@ interface AxiosError extends Error {
     NETWORK_ERROR: 'NETWORK_ERROR',
     TIMEOUT_ERROR: 'TIMEOUT_ERROR',
     CONNECTION_ERROR: 'CONNECTION_ERROR',
+    CANCELLED: 'CANCELLED',
     
     // HTTP errors
     BAD_REQUEST: 'BAD_REQUEST',
@@ -103,6 +111,7 @@ interface AxiosError extends Error {
     MARKET_NOT_FOUND: 'MARKET_NOT_FOUND',
     MARKET_CLOSED: 'MARKET_CLOSED',
     INSUFFICIENT_DATA: 'INSUFFICIENT_DATA',
+    INVALID_ORDER: 'INVALID_ORDER',
     
     // Unknown errors
     UNKNOWN_ERROR: 'UNKNOWN_ERROR',
@@ -123,6 +132,14 @@ interface AxiosError extends Error {
     return new ApiError(code, message, status, details, retryable);
   }
   
+  /**
+   * Error for a request aborted by its caller. Uses the non-standard 499
+   * (client closed request) so it never counts as retryable.
+   */
+  export function createCancelledError(details?: Record<string, unknown>): ApiError {
+    return createApiError('CANCELLED', 'Request was cancelled', 499, details);
+  }
+  
   /**
    * Determine if an error is retryable
    */
@@ -150,6 +167,11 @@ interface AxiosError extends Error {
    * Handle axios errors and convert to ApiError
    */
   export function handleApiError(error: AxiosError): ApiError {
+    // Aborted through the request's AbortSignal
+    if (error.code === 'ERR_CANCELED') {
+      return createCancelledError();
+    }
+
     // Network errors
     if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
       return createApiError(
@@ -225,16 +247,19 @@ interface AxiosError extends Error {
           { responseData: data }
         );
         
-      case 429:
+      case 429: {
+        const retryAfter = (error.response.headers as Record<string, string>)?.['retry-after'];
         return createApiError(
           'RATE_LIMITED',
           (data?.message) || 'Rate limit exceeded',
           status,
           { 
             responseData: data,
-            retryAfter: (error.response.headers as Record<string, string>)?.['retry-after']
+            retryAfter,
+            retryAfterMs: parseRetryAfter(retryAfter),
           }
         );
+      }
         
       case 500:
         return createApiError(
@@ -0,0 +1,190 @@
+// File: src/lib/feedHealth.ts
+import type { Clock } from './clock';
+import type { FeedHealth } from '@/types/orderbook';
+
+/**
+ * Per-asset counters behind FeedHealth
+ */
+interface AssetHealth {
+  subscribedAt: number;
+  /** Staleness is measured from the later of this and the last message */
+  watchFrom: number;
+  messageCount: number;
+  /** Receive times inside the rate window, oldest first */
+  recent: number[];
+  lastMessageAt?: number;
+  serverLagMs?: number;
+  stale: boolean;
+  staleRecoveries: number;
+  quarantined: number;
+}
+
+/**
+ * Tracks message rates, freshness and connection uptime for the assets of a
+ * socket
+ */
+export class FeedHealthMonitor {
+  private clock: Clock;
+  private rateWindowMs: number;
+  private assets = new Map<string, AssetHealth>();
+  private reconnects = 0;
+  private disconnectedMs = 0;
+  private disconnectedSince: number | null;
+  private lastFrameAt: number;
+
+  constructor(clock: Clock, rateWindowMs = 10000) {
+    this.clock = clock;
+    this.rateWindowMs = rateWindowMs;
+    // Not connected yet; the initial connect does not count as downtime
+    this.disconnectedSince = null;
+    this.lastFrameAt = clock.now();
+  }
+
+  /**
+   * Start tracking an asset; its age counts from now until the first message
+   */
+  public addAsset(assetId: string): void {
+    if (this.assets.has(assetId)) return;
+    const now = this.clock.now();
+    this.assets.set(assetId, {
+      subscribedAt: now,
+      watchFrom: now,
+      messageCount: 0,
+      recent: [],
+      stale: false,
+      staleRecoveries: 0,
+      quarantined: 0,
+    });
+  }
+
+  public removeAsset(assetId: string): void {
+    this.assets.delete(assetId);
+  }
+
+  /**
+   * Record any inbound frame on the connection
+   */
+  public recordFrame(): void {
+    this.lastFrameAt = this.clock.now();
+  }
+
+  /**
+   * Record a message for an asset. Returns true if the asset was stale and
+   * is now fresh again.
+   */
+  public recordMessage(assetId: string, serverTimestamp?: number): boolean {
+    const health = this.assets.get(assetId);
+    if (!health) return false;
+
+    const now = this.clock.now();
+    health.messageCount++;
+    health.lastMessageAt = now;
+    health.recent.push(now);
+    this.trim(health, now);
+    if (serverTimestamp) {
+      health.serverLagMs = now - serverTimestamp;
+    }
+
+    const recovered = health.stale;
+    health.stale = false;
+    return recovered;
+  }
+
+  /**
+   * Record a message for an asset that failed validation
+   */
+  public recordQuarantined(assetId: string): void {
+    const health = this.assets.get(assetId);
+    if (health) health.quarantined++;
+  }
+
+  /**
+   * The connection opened; reconnections after the first are counted
+   */
+  public recordConnected(isReconnect: boolean): void {
+    const now = this.clock.now();
+    if (this.disconnectedSince !== null) {
+      this.disconnectedMs += now - this.disconnectedSince;
+      this.disconnectedSince = null;
+    }
+    if (isReconnect) this.reconnects++;
+    this.lastFrameAt = now;
+
+    // Give the new connection a full period to deliver messages
+    this.assets.forEach((health) => {
+      health.watchFrom = now;
+    });
+  }
+
+  /**
+   * The connection went down
+   */
+  public recordDisconnected(): void {
+    if (this.disconnectedSince === null) {
+      this.disconnectedSince = this.clock.now();
+    }
+  }
+
+  /**
+   * Time since the last frame of any kind arrived on the connection
+   */
+  public getConnectionIdleMs(): number {
+    return this.clock.now() - this.lastFrameAt;
+  }
+
+  /**
+   * Find the assets without a message for more than `staleAfterMs` and mark
+   * them stale. Each returned asset is due a recovery attempt; the next one
+   * is due after another full period without messages.
+   */
+  public detectStale(staleAfterMs: number): string[] {
+    const now = this.clock.now();
+    const due: string[] = [];
+
+    this.assets.forEach((health, assetId) => {
+      const since = Math.max(health.lastMessageAt ?? 0, health.watchFrom);
+      if (now - since > staleAfterMs) {
+        health.stale = true;
+        health.staleRecoveries++;
+        health.watchFrom = now;
+        due.push(assetId);
+      }
+    });
+
+    return due;
+  }
+
+  public getHealth(assetId: string): FeedHealth | null {
+    const health = this.assets.get(assetId);
+    if (!health) return null;
+
+    const now = this.clock.now();
+    this.trim(health, now);
+    const ongoing = this.disconnectedSince !== null ? now - this.disconnectedSince : 0;
+
+    return {
+      assetId,
+      messageCount: health.messageCount,
+      messageRate: health.recent.length / (this.rateWindowMs / 1000),
+      lastMessageAt: health.lastMessageAt,
+      lastMessageAgeMs: now - (health.lastMessageAt ?? health.subscribedAt),
+      serverLagMs: health.serverLagMs,
+      reconnects: this.reconnects,
+      disconnectedMs: this.disconnectedMs + ongoing,
+      stale: health.stale,
+      staleRecoveries: health.staleRecoveries,
+      quarantined: health.quarantined,
+    };
+  }
+
+  public getAssetIds(): string[] {
+    return [...this.assets.keys()];
+  }
+
+  private trim(health: AssetHealth, now: number): void {
+    const cutoff = now - this.rateWindowMs;
+    while (health.recent.length > 0 && health.recent[0] <= cutoff) {
+      health.recent.shift();
+    }
+  }
+}
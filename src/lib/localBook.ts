@@ -0,0 +1,311 @@
+// File: src/lib/localBook.ts
+import { sha1 } from '@noble/hashes/legacy';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import Decimal from 'decimal.js';
+
+import { accumulateTotals } from './transforms';
+import type { OrderBook, OrderBookUpdate, Order } from '@/types/orderbook';
+import type {
+  OrderBookApiResponse,
+  OrderSummary,
+  WSBookMessage,
+  WSPriceChangeMessage,
+} from '@/types';
+
+/**
+ * A single resting price level as held by the local book
+ */
+interface PriceLevel {
+  price: Decimal;
+  size: Decimal;
+  /** Level exactly as the server sent it, kept for hashing */
+  raw: OrderSummary;
+}
+
+/**
+ * Result of applying a snapshot or delta to the local book
+ */
+export interface LocalBookChange {
+  /** Full book after the change */
+  book: OrderBook;
+  /** The change that was applied */
+  update: OrderBookUpdate;
+}
+
+/**
+ * Compute the summary hash of an order book the way the CLOB does: SHA-1 over
+ * the compact JSON of the book with an empty `hash` field.
+ */
+export function computeBookHash(summary: OrderBookApiResponse): string {
+  const payload = JSON.stringify({
+    market: summary.market,
+    asset_id: summary.asset_id,
+    timestamp: summary.timestamp,
+    bids: summary.bids.map(({ price, size }) => ({ price, size })),
+    asks: summary.asks.map(({ price, size }) => ({ price, size })),
+    hash: '',
+  });
+  return bytesToHex(sha1(utf8ToBytes(payload)));
+}
+
+/**
+ * Describe a full book as a snapshot update
+ */
+export function toSnapshotUpdate(assetId: string, book: OrderBook): OrderBookUpdate {
+  return {
+    bids: book.bids,
+    asks: book.asks,
+    updateId: book.lastUpdateId,
+    timestamp: book.timestamp,
+    type: 'snapshot',
+    marketId: assetId,
+  };
+}
+
+/**
+ * Take the changed levels of an update from the built book, which carries
+ * their totals. Removed levels keep their zero size.
+ */
+function fillLevels(book: OrderBook, update: OrderBookUpdate): OrderBookUpdate {
+  const fill = (changes: Order[], levels: Order[]) =>
+    changes.map(change => levels.find(order => order.price.eq(change.price)) ?? change);
+
+  return {
+    ...update,
+    bids: fill(update.bids, book.bids),
+    asks: fill(update.asks, book.asks),
+  };
+}
+
+/**
+ * Fold the updates applied since the last publish into one. Any snapshot
+ * among them makes the result a snapshot of `book`; otherwise each changed
+ * level appears once, at its latest size.
+ */
+export function mergeUpdates(book: OrderBook, updates: OrderBookUpdate[]): OrderBookUpdate {
+  const assetId = updates[0]?.marketId ?? book.assetId ?? '';
+  if (updates.some(update => update.type === 'snapshot')) {
+    return { ...toSnapshotUpdate(assetId, book), coalescedCount: updates.length };
+  }
+
+  const latest = (side: 'bids' | 'asks') => {
+    const levels = new Map<string, Order>();
+    updates.forEach(update => update[side].forEach(order => levels.set(order.price.toString(), order)));
+    return [...levels.values()];
+  };
+
+  return {
+    ...fillLevels(book, {
+      bids: latest('bids'),
+      asks: latest('asks'),
+      updateId: book.lastUpdateId,
+      timestamp: book.timestamp,
+      type: 'delta',
+      marketId: assetId,
+    }),
+    coalescedCount: updates.length,
+  };
+}
+
+/**
+ * Authoritative in-memory order book for a single asset.
+ *
+ * Seeded from a full `book` snapshot and kept current by applying
+ * `price_change` deltas in between snapshots.
+ */
+export class LocalOrderBook {
+  public readonly assetId: string;
+  private market = '';
+  private bids = new Map<string, PriceLevel>();
+  private asks = new Map<string, PriceLevel>();
+  private sequence = 0;
+  private timestamp = 0;
+  private rawTimestamp = '';
+  private serverHash = '';
+  private lastPrice: Decimal | undefined;
+  private hasSnapshot = false;
+
+  constructor(assetId: string) {
+    this.assetId = assetId;
+  }
+
+  /**
+   * Replace the whole book with a snapshot
+   */
+  public applySnapshot(message: WSBookMessage): LocalBookChange {
+    this.market = message.market;
+    this.setTimestamp(message.timestamp);
+    this.serverHash = message.hash;
+    this.bids = LocalOrderBook.toLevelMap(message.buys || []);
+    this.asks = LocalOrderBook.toLevelMap(message.sells || []);
+    return this.snapshotChange();
+  }
+
+  /**
+   * Replace the whole book with a snapshot fetched over REST. The levels
+   * and timestamp are taken verbatim from the server's response when the
+   * book carries it, so that later hashes match the server's.
+   */
+  public applyOrderBook(orderBook: OrderBook): LocalBookChange {
+    const toSummaries = (orders: Order[]): OrderSummary[] =>
+      orders.map(order => ({ price: order.price.toString(), size: order.size.toString() }));
+    const { summary } = orderBook;
+
+    this.market = summary?.market ?? orderBook.market ?? this.market;
+    this.setTimestamp(summary?.timestamp ?? String(orderBook.timestamp));
+    this.serverHash = orderBook.hash ?? '';
+    this.bids = LocalOrderBook.toLevelMap(summary?.bids ?? toSummaries(orderBook.bids));
+    this.asks = LocalOrderBook.toLevelMap(summary?.asks ?? toSummaries(orderBook.asks));
+    return this.snapshotChange();
+  }
+
+  /**
+   * Apply a single price level change. A size of zero removes the level.
+   */
+  public applyPriceChange(message: WSPriceChangeMessage): LocalBookChange {
+    const update = this.applyDelta(message);
+    const book = this.toOrderBook();
+    return { book, update: fillLevels(book, update) };
+  }
+
+  /**
+   * Apply a single price level change without building the book. The
+   * returned update has no totals yet; see `mergeUpdates`.
+   */
+  public applyDelta(message: WSPriceChangeMessage): OrderBookUpdate {
+    const isBid = message.side.toLowerCase() === 'buy';
+    const side = isBid ? this.bids : this.asks;
+    const price = new Decimal(message.price);
+    const size = new Decimal(message.size);
+    const key = price.toString();
+
+    if (size.isZero()) {
+      side.delete(key);
+    } else {
+      side.set(key, { price, size, raw: { price: message.price, size: message.size } });
+    }
+
+    // A delta without a hash leaves nothing to verify the new state against
+    this.setTimestamp(message.timestamp);
+    this.serverHash = message.hash ?? '';
+    this.sequence++;
+
+    const changed: Order = { price, size, total: new Decimal(0), timestamp: this.timestamp };
+    return {
+      bids: isBid ? [changed] : [],
+      asks: isBid ? [] : [changed],
+      updateId: this.sequence,
+      timestamp: this.timestamp,
+      type: 'delta',
+      marketId: this.assetId,
+    };
+  }
+
+  /**
+   * Record the price of the latest trade, carried on every book from now on
+   */
+  public setLastPrice(price: Decimal): void {
+    this.lastPrice = price;
+  }
+
+  /**
+   * Whether a snapshot has been applied yet
+   */
+  public isInitialized(): boolean {
+    return this.hasSnapshot;
+  }
+
+  /**
+   * Market condition ID this asset belongs to
+   */
+  public getMarket(): string {
+    return this.market;
+  }
+
+  /**
+   * Timestamp of the last applied snapshot or delta
+   */
+  public getTimestamp(): number {
+    return this.timestamp;
+  }
+
+  /**
+   * Hash most recently advertised by the server for this book
+   */
+  public getServerHash(): string {
+    return this.serverHash;
+  }
+
+  /**
+   * Hash of the local levels, in the server's level order (bids and asks
+   * both listed from the far end of the book towards the spread)
+   */
+  public computeHash(): string {
+    const bids = [...this.bids.values()].sort((a, b) => a.price.comparedTo(b.price));
+    const asks = [...this.asks.values()].sort((a, b) => b.price.comparedTo(a.price));
+
+    return computeBookHash({
+      market: this.market,
+      asset_id: this.assetId,
+      timestamp: this.rawTimestamp,
+      hash: '',
+      bids: bids.map(level => level.raw),
+      asks: asks.map(level => level.raw),
+    });
+  }
+
+  /**
+   * Check the local levels against the last server hash. Books without a
+   * server hash cannot be checked and are treated as matching.
+   */
+  public verifyHash(): boolean {
+    if (!this.serverHash) return true;
+    return this.computeHash() === this.serverHash.replace(/^0x/, '');
+  }
+
+  /**
+   * Build a sorted OrderBook with cumulative totals from the current levels
+   */
+  public toOrderBook(): OrderBook {
+    const bids = [...this.bids.values()].sort((a, b) => b.price.comparedTo(a.price));
+    const asks = [...this.asks.values()].sort((a, b) => a.price.comparedTo(b.price));
+
+    return {
+      bids: accumulateTotals(bids, this.timestamp),
+      asks: accumulateTotals(asks, this.timestamp),
+      lastUpdateId: this.sequence,
+      timestamp: this.timestamp,
+      hash: this.serverHash || undefined,
+      assetId: this.assetId,
+      market: this.market || undefined,
+      lastPrice: this.lastPrice,
+      priceChange24h: undefined,
+      volume24h: undefined,
+    };
+  }
+
+  private snapshotChange(): LocalBookChange {
+    this.hasSnapshot = true;
+    this.sequence++;
+
+    const book = this.toOrderBook();
+    return { book, update: toSnapshotUpdate(this.assetId, book) };
+  }
+
+  private setTimestamp(timestamp: string): void {
+    this.rawTimestamp = timestamp;
+    this.timestamp = parseInt(timestamp) || Date.now();
+  }
+
+  private static toLevelMap(summaries: OrderSummary[]): Map<string, PriceLevel> {
+    const levels = new Map<string, PriceLevel>();
+    summaries.forEach((summary) => {
+      const price = new Decimal(summary.price);
+      const size = new Decimal(summary.size);
+      if (!size.isZero()) {
+        levels.set(price.toString(), { price, size, raw: summary });
+      }
+    });
+    return levels;
+  }
+}
@@ -0,0 +1,301 @@
+// File: src/lib/orders.ts
+import Decimal from 'decimal.js';
+import { ApiClient, requestConfig } from './apiClient';
+import type { ApiClientConfig, RequestOptions } from './apiClient';
+import type { CredentialsProvider, TypedData, WalletSigner } from './auth';
+import { ENDPOINTS, API_CONFIG } from './endpoints';
+import { apiEnvironment } from './environment';
+import type { ApiEnvironmentManager } from './environment';
+import { createApiError } from './errors';
+import {
+  SignedOrderSchema,
+  PostOrderResponseSchema,
+  CancelOrdersResponseSchema,
+} from '@/types';
+import type {
+  LimitOrderArgs,
+  OrderMarketRules,
+  OrderType,
+  SignatureType,
+  SignedOrder,
+  PostOrderRequest,
+  PostOrderResponse,
+  CancelOrdersResponse,
+  CancelMarketOrdersParams,
+} from '@/types';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// USDC and outcome tokens both have 6 decimals
+const TOKEN_DECIMALS = 6;
+
+// Size precision the CLOB accepts
+const SIZE_DECIMALS = 2;
+
+/**
+ * Exchange contracts that verify orders, per chain
+ */
+export const EXCHANGE_CONTRACTS: Record<number, { exchange: string; negRiskExchange: string }> = {
+  137: {
+    exchange: '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E',
+    negRiskExchange: '0xC5d563A36AE78145C45a50134d48A1215220f80a',
+  },
+  80002: {
+    exchange: '0xdFE02Eb6733538f8Ea35D585af8DE5958AD99E40',
+    negRiskExchange: '0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296',
+  },
+};
+
+const ORDER_FIELDS = [
+  { name: 'salt', type: 'uint256' },
+  { name: 'maker', type: 'address' },
+  { name: 'signer', type: 'address' },
+  { name: 'taker', type: 'address' },
+  { name: 'tokenId', type: 'uint256' },
+  { name: 'makerAmount', type: 'uint256' },
+  { name: 'takerAmount', type: 'uint256' },
+  { name: 'expiration', type: 'uint256' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'feeRateBps', type: 'uint256' },
+  { name: 'side', type: 'uint8' },
+  { name: 'signatureType', type: 'uint8' },
+];
+
+/**
+ * EIP-712 typed data of an order as the exchange contract hashes it
+ */
+export function buildOrderTypedData(
+  order: Omit<SignedOrder, 'signature'>,
+  chainId: number,
+  negRisk: boolean = false
+): TypedData {
+  const contracts = EXCHANGE_CONTRACTS[chainId];
+  if (!contracts) {
+    throw new Error(`No exchange contract known for chain ${chainId}`);
+  }
+
+  return {
+    domain: {
+      name: 'Polymarket CTF Exchange',
+      version: '1',
+      chainId,
+      verifyingContract: negRisk ? contracts.negRiskExchange : contracts.exchange,
+    },
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ],
+      Order: ORDER_FIELDS,
+    },
+    primaryType: 'Order',
+    message: { ...order, side: order.side === 'BUY' ? 0 : 1 },
+  };
+}
+
+const invalidOrder = (message: string, details: Record<string, unknown>) =>
+  createApiError('INVALID_ORDER', message, 400, details);
+
+/**
+ * Maker and taker amounts of a limit order in base units, after checking
+ * price and size against the market's rules. A buy gives USDC for shares,
+ * a sell shares for USDC.
+ */
+export function limitOrderAmounts(
+  args: Pick<LimitOrderArgs, 'side' | 'price' | 'size'>,
+  rules: OrderMarketRules
+): { makerAmount: string; takerAmount: string } {
+  const price = new Decimal(args.price);
+  const size = new Decimal(args.size);
+  const tick = new Decimal(rules.minimumTickSize);
+  const minimumSize = new Decimal(rules.minimumOrderSize);
+
+  if (price.lt(tick) || price.gt(new Decimal(1).minus(tick)) || !price.mod(tick).isZero()) {
+    throw invalidOrder(
+      `Price ${price} is not on the tick grid of ${tick} between ${tick} and ${new Decimal(1).minus(tick)}`,
+      { price: price.toString(), minimumTickSize: tick.toString() }
+    );
+  }
+  if (size.lt(minimumSize)) {
+    throw invalidOrder(
+      `Size ${size} is below the minimum order size of ${minimumSize}`,
+      { size: size.toString(), minimumOrderSize: minimumSize.toString() }
+    );
+  }
+  if (size.decimalPlaces() > SIZE_DECIMALS) {
+    throw invalidOrder(
+      `Size ${size} has more than ${SIZE_DECIMALS} decimals`,
+      { size: size.toString() }
+    );
+  }
+
+  const shares = size.times(10 ** TOKEN_DECIMALS);
+  const usdc = price.times(size).times(10 ** TOKEN_DECIMALS);
+  if (!usdc.isInteger()) {
+    throw invalidOrder(
+      `Notional ${price.times(size)} needs more than ${TOKEN_DECIMALS} decimals`,
+      { price: price.toString(), size: size.toString() }
+    );
+  }
+
+  return args.side === 'BUY'
+    ? { makerAmount: usdc.toFixed(0), takerAmount: shares.toFixed(0) }
+    : { makerAmount: shares.toFixed(0), takerAmount: usdc.toFixed(0) };
+}
+
+// Random salt that survives JSON as a number
+const randomSalt = () => {
+  const [high, low] = globalThis.crypto.getRandomValues(new Uint32Array(2));
+  return (high & 0x1fffff) * 0x100000000 + low;
+};
+
+/**
+ * Client for the order endpoints. Builds limit orders, has them signed as
+ * EIP-712 typed data by the account's signer and posts them with the
+ * account's L2 credentials. Follows the API environment like
+ * PolymarketClient, signing for the environment's chain.
+ */
+export class OrdersClient {
+  private client: ApiClient;
+  private signer: WalletSigner;
+  private credentials: CredentialsProvider;
+  private funder?: string;
+  private signatureType: SignatureType;
+  private environments: ApiEnvironmentManager;
+
+  constructor(options: {
+    signer: WalletSigner;
+    credentials: CredentialsProvider;
+    /** Address holding the funds, when it is a proxy wallet or Safe of the signer */
+    funder?: string;
+    /** Default: 0 (EOA), or 1 (proxy wallet) when a funder is given */
+    signatureType?: SignatureType;
+    environments?: ApiEnvironmentManager;
+    /** Overrides of the underlying ApiClient's config, such as its transport */
+    apiConfig?: Partial<ApiClientConfig>;
+  }) {
+    this.signer = options.signer;
+    this.credentials = options.credentials;
+    this.funder = options.funder;
+    this.signatureType = options.signatureType ?? (options.funder ? 1 : 0);
+    this.environments = options.environments ?? apiEnvironment;
+
+    this.client = new ApiClient({
+      baseUrl: this.environments.get().restUrl,
+      timeout: API_CONFIG.TIMEOUT,
+      retryAttempts: API_CONFIG.RETRY_ATTEMPTS,
+      retryDelay: API_CONFIG.RETRY_DELAY,
+      ...options.apiConfig,
+      credentials: options.credentials,
+    });
+
+    this.environments.onChange((next) => {
+      this.client.updateConfig({ baseUrl: next.restUrl });
+    });
+  }
+
+  /**
+   * Build and sign a limit order without posting it
+   *
+   * @throws ApiError INVALID_ORDER when price or size break the market's rules
+   */
+  async createOrder(args: LimitOrderArgs, rules: OrderMarketRules): Promise<SignedOrder> {
+    const { makerAmount, takerAmount } = limitOrderAmounts(args, rules);
+    const signer = await this.signer.getAddress();
+    const chainId = this.environments.get().chainId ?? API_CONFIG.CHAIN_ID;
+
+    const order: Omit<SignedOrder, 'signature'> = {
+      salt: randomSalt(),
+      maker: this.funder ?? signer,
+      signer,
+      taker: args.taker ?? ZERO_ADDRESS,
+      tokenId: args.tokenId,
+      makerAmount,
+      takerAmount,
+      expiration: String(args.expiration ?? 0),
+      nonce: String(args.nonce ?? 0),
+      feeRateBps: String(args.feeRateBps ?? 0),
+      side: args.side,
+      signatureType: this.signatureType,
+    };
+    const signature = await this.signer.signTypedData(buildOrderTypedData(order, chainId, rules.negRisk));
+
+    return SignedOrderSchema.parse({ ...order, signature });
+  }
+
+  /**
+   * Post a signed order. A rejected order resolves with `success: false`
+   * and the reason in `errorMsg`. Retrying a post is safe: the CLOB
+   * rejects a second copy of the same signed order.
+   */
+  async postOrder(order: SignedOrder, orderType: OrderType = 'GTC', options: RequestOptions = {}): Promise<PostOrderResponse> {
+    if (orderType === 'GTD' && order.expiration === '0') {
+      throw invalidOrder('GTD orders need an expiration', { orderType });
+    }
+
+    const credentials = await this.credentials.getCredentials();
+    if (!credentials?.apiKey) {
+      throw createApiError('UNAUTHORIZED', 'Posting an order needs the API key of its owner', 401, {
+        missingCredentials: ['apiKey'],
+      });
+    }
+
+    const body: PostOrderRequest = { order, owner: credentials.apiKey, orderType };
+    return this.client.post<PostOrderResponse>(
+      ENDPOINTS.CREATE_ORDER,
+      body,
+      PostOrderResponseSchema,
+      requestConfig(options)
+    );
+  }
+
+  /**
+   * Build, sign and post a limit order
+   */
+  async placeLimitOrder(
+    args: LimitOrderArgs,
+    rules: OrderMarketRules,
+    orderType: OrderType = 'GTC',
+    options: RequestOptions = {}
+  ): Promise<PostOrderResponse> {
+    return this.postOrder(await this.createOrder(args, rules), orderType, options);
+  }
+
+  /**
+   * Cancel one order
+   */
+  async cancelOrder(orderId: string, options: RequestOptions = {}): Promise<CancelOrdersResponse> {
+    return this.cancel(ENDPOINTS.CANCEL_ORDER, { orderID: orderId }, options);
+  }
+
+  /**
+   * Cancel several orders
+   */
+  async cancelOrders(orderIds: string[], options: RequestOptions = {}): Promise<CancelOrdersResponse> {
+    return this.cancel(ENDPOINTS.CANCEL_ORDERS, orderIds, options);
+  }
+
+  /**
+   * Cancel the account's orders in a market, or on one of its outcomes
+   */
+  async cancelMarketOrders(params: CancelMarketOrdersParams, options: RequestOptions = {}): Promise<CancelOrdersResponse> {
+    return this.cancel(ENDPOINTS.CANCEL_MARKET_ORDERS, params, options);
+  }
+
+  /**
+   * Cancel every open order of the account
+   */
+  async cancelAll(options: RequestOptions = {}): Promise<CancelOrdersResponse> {
+    return this.cancel(ENDPOINTS.CANCEL_ALL_ORDERS, undefined, options);
+  }
+
+  private cancel(endpoint: string, data: unknown, options: RequestOptions): Promise<CancelOrdersResponse> {
+    return this.client.delete<CancelOrdersResponse>(
+      endpoint,
+      CancelOrdersResponseSchema,
+      { ...requestConfig(options), data }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// File: src/lib/polling.ts
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import type { OrderBook } from '@/types/orderbook';
+
+/**
+ * Options for the REST polling fallback
+ */
+export interface OrderBookPollerOptions {
+  /** Delay between the end of one poll and the start of the next */
+  intervalMs: number;
+  /** Fetch the book of a single asset (`/book`) */
+  fetchSnapshot: (assetId: string) => Promise<OrderBook>;
+  /** Fetch the books of many assets in one request (`/books`), if available */
+  fetchSnapshots?: (assetIds: string[]) => Promise<OrderBook[]>;
+  /** Clock used to schedule polls */
+  clock?: Clock;
+}
+
+/**
+ * Polls order book snapshots over REST while the WebSocket is unavailable.
+ *
+ * Polls never overlap: the next one is scheduled only after the previous one
+ * has settled.
+ */
+export class OrderBookPoller {
+  private getAssetIds: () => string[];
+  private onSnapshot: (assetId: string, orderBook: OrderBook) => void;
+  private options: OrderBookPollerOptions;
+  private clock: Clock;
+  private timer: TimerHandle | null = null;
+  private running = false;
+
+  constructor(
+    getAssetIds: () => string[],
+    onSnapshot: (assetId: string, orderBook: OrderBook) => void,
+    options: OrderBookPollerOptions
+  ) {
+    this.getAssetIds = getAssetIds;
+    this.onSnapshot = onSnapshot;
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Start polling immediately
+   */
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.poll();
+  }
+
+  /**
+   * Stop polling; a poll already in flight is discarded
+   */
+  public stop(): void {
+    this.running = false;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether the poller is active
+   */
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  private async poll(): Promise<void> {
+    const assetIds = this.getAssetIds();
+
+    try {
+      if (assetIds.length > 1 && this.options.fetchSnapshots) {
+        const orderBooks = await this.options.fetchSnapshots(assetIds);
+        if (!this.running) return;
+
+        orderBooks.forEach((orderBook, index) => {
+          this.onSnapshot(orderBook.assetId ?? assetIds[index], orderBook);
+        });
+      } else {
+        const results = await Promise.allSettled(
+          assetIds.map(assetId => this.options.fetchSnapshot(assetId))
+        );
+        if (!this.running) return;
+
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            this.onSnapshot(assetIds[index], result.value);
+          } else {
+            console.error(`Polling order book for ${assetIds[index]} failed:`, result.reason);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Polling order books failed:', error);
+    }
+
+    if (this.running) {
+      this.timer = this.clock.setTimeout(() => this.poll(), this.options.intervalMs);
+    }
+  }
+}
@@ -1,9 +1,18 @@
 // File: src/lib/polymarket.ts - FIXED
-import { ApiClient } from './apiClient';
+import { ApiClient, requestConfig } from './apiClient';
+import type { RequestOptions } from './apiClient';
+import { createL1Headers } from './auth';
+import type { CredentialsProvider, L1Headers, WalletSigner } from './auth';
 import { ENDPOINTS, API_CONFIG } from './endpoints';
+import { ApiError } from './errors';
+import { apiEnvironment } from './environment';
+import type { ApiEnvironment, ApiEnvironmentManager } from './environment';
+import { LocalStorageCacheStore } from './responseCache';
+import type { EndpointLatencyStats } from './telemetry';
 import {
   transformOrderBookResponse,
   transformMarketResponse,
+  transformOpenOrderResponse,
   normalizeTokenId, // FIXED: Updated function name
   sanitizeApiInput,
   buildQueryParams // FIXED: Added utility function
@@ -12,34 +21,197 @@ import {
   OrderBookApiResponseSchema, // FIXED: Updated schema name
   MarketApiResponseSchema,
   TradeApiResponseSchema,
+  ApiKeyCredsResponseSchema,
+  ApiKeysResponseSchema,
+  OpenOrderApiResponseSchema,
+  OpenOrdersApiResponseSchema,
 } from '@/types';
 import type {
   OrderBook,
   Market,
   OrderBookApiResponse, // FIXED: Updated type name
   MarketApiResponse,
-  TradeApiResponse
+  TradeApiResponse,
+  CircuitBreakerStatus,
+  ApiKeyCredsResponse,
+  ApiKeysResponse,
+  L2Credentials,
+  OrderMarketRules,
+  OpenOrder,
+  OpenOrderApiResponse,
+  OpenOrdersApiResponse,
+  OpenOrdersParams,
+  OpenOrdersPage,
 } from '@/types';
 
+// Cursor the CLOB returns after the last page
+const END_CURSOR = 'LTE=';
+
+// Market metadata rarely changes: serve it from cache, across page loads
+const MARKET_CACHE_POLICIES = {
+  '/markets/': { ttlMs: 5 * 60 * 1000, staleWhileRevalidateMs: 24 * 60 * 60 * 1000, persist: true },
+  [ENDPOINTS.GET_MARKETS]: { ttlMs: 60 * 1000, staleWhileRevalidateMs: 5 * 60 * 1000 },
+};
+
+// Persisted responses are kept apart per server
+const cacheStoreFor = (environment: ApiEnvironment) =>
+  typeof window !== 'undefined' && window.localStorage
+    ? new LocalStorageCacheStore(`polymarket-cache:${environment.restUrl}:`)
+    : undefined;
+
 /**
- * Polymarket-specific API client
+ * Polymarket-specific API client. Talks to the current API environment and
+ * follows it when it is switched at runtime. Every request method takes
+ * optional RequestOptions to cancel it or override its timeout.
  */
 export class PolymarketClient {
   private client: ApiClient;
 
-  constructor() {
+  constructor(private environments: ApiEnvironmentManager = apiEnvironment) {
+    const environment = environments.get();
     this.client = new ApiClient({
-      baseUrl: API_CONFIG.BASE_URL,
+      baseUrl: environment.restUrl,
       timeout: API_CONFIG.TIMEOUT,
       retryAttempts: API_CONFIG.RETRY_ATTEMPTS,
       retryDelay: API_CONFIG.RETRY_DELAY,
+      cachePolicies: MARKET_CACHE_POLICIES,
+      cacheStore: cacheStoreFor(environment),
     });
+
+    environments.onChange((next) => {
+      this.client.updateConfig({ baseUrl: next.restUrl, cacheStore: cacheStoreFor(next) });
+    });
+  }
+
+  /**
+   * Use a credentials provider for the L2-authenticated endpoints, or none
+   */
+  setCredentialsProvider(credentials: CredentialsProvider | undefined): void {
+    this.client.updateConfig({ credentials });
+  }
+
+  /**
+   * Create new API credentials for the signer's account. The wallet signs
+   * the request (L1); the returned credentials sign everything else (L2).
+   *
+   * @param nonce - Tells apart several keys of one account; deriving with it recovers the key
+   */
+  async createApiKey(signer: WalletSigner, nonce: number = 0, options: RequestOptions = {}): Promise<L2Credentials> {
+    return this.postApiKey(await this.l1Headers(signer, nonce), options);
+  }
+
+  /**
+   * Recover the API credentials created earlier with the same nonce
+   */
+  async deriveApiKey(signer: WalletSigner, nonce: number = 0, options: RequestOptions = {}): Promise<L2Credentials> {
+    return this.getDerivedApiKey(await this.l1Headers(signer, nonce), options);
+  }
+
+  /**
+   * Create API credentials, or derive them when the account already has a
+   * key for this nonce; the usual way to onboard an account. The wallet is
+   * asked to sign once for both requests.
+   */
+  async createOrDeriveApiKey(signer: WalletSigner, nonce: number = 0, options: RequestOptions = {}): Promise<L2Credentials> {
+    const headers = await this.l1Headers(signer, nonce);
+    try {
+      return await this.postApiKey(headers, options);
+    } catch (error) {
+      // The CLOB answers a 400 when the nonce already has a key; any other
+      // failure would hit the derive request just the same
+      const keyExists = error instanceof ApiError && error.code === 'BAD_REQUEST' && error.status === 400;
+      if (!keyExists) throw error;
+      return this.getDerivedApiKey(headers, options);
+    }
+  }
+
+  /**
+   * API keys of the account whose credentials sign the request (L2)
+   */
+  async getApiKeys(options: RequestOptions = {}): Promise<string[]> {
+    const response = await this.client.get<ApiKeysResponse>(
+      ENDPOINTS.GET_API_KEYS,
+      ApiKeysResponseSchema,
+      requestConfig(options)
+    );
+    return response.apiKeys;
+  }
+
+  /**
+   * Revoke the API key whose credentials sign the request (L2). They stop
+   * working immediately, so clear them from wherever they are stored.
+   */
+  async deleteApiKey(options: RequestOptions = {}): Promise<void> {
+    await this.client.delete(ENDPOINTS.DELETE_API_KEY, undefined, requestConfig(options));
+  }
+
+  /**
+   * Fetch one of the account's orders, resting or not (L2)
+   */
+  async fetchOrder(orderId: string, options: RequestOptions = {}): Promise<OpenOrder> {
+    const response = await this.client.get<OpenOrderApiResponse>(
+      ENDPOINTS.GET_ORDER(sanitizeApiInput(orderId)),
+      OpenOrderApiResponseSchema,
+      requestConfig(options)
+    );
+    return transformOpenOrderResponse(response);
+  }
+
+  /**
+   * Fetch a page of the account's open orders, optionally in one market or
+   * on one asset (L2)
+   */
+  async fetchOpenOrders(params: OpenOrdersParams = {}, options: RequestOptions = {}): Promise<OpenOrdersPage> {
+    const queryParams = buildQueryParams({
+      id: params.id,
+      market: params.market,
+      asset_id: params.assetId,
+      next_cursor: params.nextCursor,
+    });
+
+    const response = await this.client.get<OpenOrdersApiResponse>(
+      `${ENDPOINTS.GET_ORDERS}${queryParams}`,
+      OpenOrdersApiResponseSchema,
+      requestConfig(options)
+    );
+
+    return {
+      orders: response.data.map(transformOpenOrderResponse),
+      nextCursor: response.next_cursor && response.next_cursor !== END_CURSOR ? response.next_cursor : null,
+    };
+  }
+
+  /**
+   * Fetch every page of the account's open orders. Stops early if the
+   * server hands back a cursor it already gave.
+   */
+  async fetchAllOpenOrders(params: Omit<OpenOrdersParams, 'nextCursor'> = {}, options: RequestOptions = {}): Promise<OpenOrder[]> {
+    const orders: OpenOrder[] = [];
+    const seen = new Set<string>();
+    let nextCursor: string | undefined;
+    do {
+      const page = await this.fetchOpenOrders({ ...params, nextCursor }, options);
+      orders.push(...page.orders);
+      nextCursor = page.nextCursor ?? undefined;
+      if (nextCursor !== undefined) {
+        if (seen.has(nextCursor)) break;
+        seen.add(nextCursor);
+      }
+    } while (nextCursor);
+    return orders;
+  }
+
+  /**
+   * Drop cached responses whose URL starts with `prefix`, e.g. `/markets/`
+   */
+  invalidateCache(prefix?: string): Promise<number> {
+    return this.client.invalidateCache(prefix);
   }
 
   /**
    * Fetch order book for a specific token - FIXED
    */
-  async fetchOrderBook(tokenId: string): Promise<OrderBook> {
+  async fetchOrderBook(tokenId: string, options: RequestOptions = {}): Promise<OrderBook> {
     const normalizedId = normalizeTokenId(sanitizeApiInput(tokenId));
     
     // FIXED: Use correct endpoint with query parameter
@@ -48,7 +220,8 @@ export class PolymarketClient {
     
     const response = await this.client.get<OrderBookApiResponse>(
       endpoint,
-      OrderBookApiResponseSchema
+      OrderBookApiResponseSchema,
+      requestConfig(options)
     );
     
     return transformOrderBookResponse(response);
@@ -57,22 +230,42 @@ export class PolymarketClient {
   /**
    * Fetch market details - FIXED
    */
-  async fetchMarket(conditionId: string): Promise<Market> {
+  async fetchMarket(conditionId: string, options: RequestOptions = {}): Promise<Market> {
     const normalizedId = sanitizeApiInput(conditionId);
     const endpoint = ENDPOINTS.GET_MARKET(normalizedId);
     
     const response = await this.client.get<MarketApiResponse>(
       endpoint,
-      MarketApiResponseSchema
+      MarketApiResponseSchema,
+      requestConfig(options)
     );
     
     return transformMarketResponse(response);
   }
 
+  /**
+   * Order size and tick size constraints of a market, for OrdersClient.
+   * Always asks the server: tick sizes change while a market trades, and a
+   * cached copy of the market may be up to a day old.
+   */
+  async fetchOrderRules(conditionId: string, options: RequestOptions = {}): Promise<OrderMarketRules> {
+    const response = await this.client.get<MarketApiResponse>(
+      ENDPOINTS.GET_MARKET(sanitizeApiInput(conditionId)),
+      MarketApiResponseSchema,
+      { ...requestConfig(options), fresh: true }
+    );
+
+    return {
+      minimumOrderSize: response.minimum_order_size,
+      minimumTickSize: response.minimum_tick_size,
+      negRisk: response.neg_risk ?? false,
+    };
+  }
+
   /**
    * Search markets - FIXED
    */
-  async searchMarkets(query: string, limit: number = 20): Promise<Market[]> {
+  async searchMarkets(query: string, limit: number = 20, options: RequestOptions = {}): Promise<Market[]> {
     const sanitizedQuery = sanitizeApiInput(query);
     const queryParams = buildQueryParams({ 
       next_cursor: '', // Start from beginning
@@ -87,7 +280,7 @@ export class PolymarketClient {
       count: number;
       limit: number;
       next_cursor: string;
-    }>(endpoint);
+    }>(endpoint, undefined, requestConfig(options));
     
     // Filter by query client-side since API doesn't have text search
     const filteredMarkets = response.data
@@ -103,7 +296,7 @@ export class PolymarketClient {
   /**
    * Fetch trade history - FIXED
    */
-  async fetchTradeHistory(marketId: string, limit: number = 50): Promise<TradeApiResponse[]> {
+  async fetchTradeHistory(marketId: string, limit: number = 50, options: RequestOptions = {}): Promise<TradeApiResponse[]> {
     const normalizedId = sanitizeApiInput(marketId);
     const queryParams = buildQueryParams({ 
       market: normalizedId,
@@ -114,19 +307,22 @@ export class PolymarketClient {
     // FIXED: Return the response directly since it's already the correct type
     return await this.client.get<TradeApiResponse[]>(
       endpoint,
-      TradeApiResponseSchema.array()
+      TradeApiResponseSchema.array(),
+      requestConfig(options)
     );
   }
 
   /**
    * Get order book for multiple tokens - NEW
    */
-  async fetchOrderBooks(tokenIds: string[]): Promise<OrderBook[]> {
+  async fetchOrderBooks(tokenIds: string[], options: RequestOptions = {}): Promise<OrderBook[]> {
     const params = tokenIds.map(tokenId => ({ token_id: tokenId }));
     
     const response = await this.client.post<OrderBookApiResponse[]>(
       ENDPOINTS.GET_BOOKS,
-      { params }
+      { params },
+      undefined,
+      requestConfig(options)
     );
     
     return response.map(transformOrderBookResponse);
@@ -135,43 +331,43 @@ export class PolymarketClient {
   /**
    * Get price for a token - NEW
    */
-  async fetchPrice(tokenId: string, side: 'BUY' | 'SELL'): Promise<string> {
+  async fetchPrice(tokenId: string, side: 'BUY' | 'SELL', options: RequestOptions = {}): Promise<string> {
     const queryParams = buildQueryParams({ 
       token_id: tokenId,
       side 
     });
     const endpoint = `${ENDPOINTS.GET_PRICE}${queryParams}`;
     
-    const response = await this.client.get<{ price: string }>(endpoint);
+    const response = await this.client.get<{ price: string }>(endpoint, undefined, requestConfig(options));
     return response.price;
   }
 
   /**
    * Get midpoint price for a token - NEW
    */
-  async fetchMidpoint(tokenId: string): Promise<string> {
+  async fetchMidpoint(tokenId: string, options: RequestOptions = {}): Promise<string> {
     const queryParams = buildQueryParams({ token_id: tokenId });
     const endpoint = `${ENDPOINTS.GET_MIDPOINT}${queryParams}`;
     
-    const response = await this.client.get<{ mid: string }>(endpoint);
+    const response = await this.client.get<{ mid: string }>(endpoint, undefined, requestConfig(options));
     return response.mid;
   }
 
   /**
    * Get spread for a token - NEW
    */
-  async fetchSpread(tokenId: string): Promise<string> {
+  async fetchSpread(tokenId: string, options: RequestOptions = {}): Promise<string> {
     const queryParams = buildQueryParams({ token_id: tokenId });
     const endpoint = `${ENDPOINTS.GET_SPREAD}${queryParams}`;
     
-    const response = await this.client.get<{ spread: string }>(endpoint);
+    const response = await this.client.get<{ spread: string }>(endpoint, undefined, requestConfig(options));
     return response.spread;
   }
 
   /**
    * Get markets list - NEW
    */
-  async fetchMarkets(nextCursor: string = ''): Promise<{
+  async fetchMarkets(nextCursor: string = '', options: RequestOptions = {}): Promise<{
     data: Market[];
     count: number;
     limit: number;
@@ -185,7 +381,7 @@ export class PolymarketClient {
       count: number;
       limit: number;
       next_cursor: string;
-    }>(endpoint);
+    }>(endpoint, undefined, requestConfig(options));
     
     return {
       ...response,
@@ -196,10 +392,10 @@ export class PolymarketClient {
   /**
    * Check API health - FIXED (API doesn't have ping endpoint)
    */
-  async ping(): Promise<boolean> {
+  async ping(options: RequestOptions = {}): Promise<boolean> {
     try {
       // Use markets endpoint as health check since there's no ping endpoint
-      await this.client.get(ENDPOINTS.GET_MARKETS + '?limit=1');
+      await this.client.get(ENDPOINTS.GET_MARKETS + '?limit=1', undefined, requestConfig(options));
       return true;
     } catch {
       return false;
@@ -219,25 +415,73 @@ export class PolymarketClient {
   isHealthy(): boolean {
     return this.client.isHealthy();
   }
+
+  /**
+   * Latency percentiles per endpoint, slowest first
+   */
+  getLatencyStats(): EndpointLatencyStats[] {
+    return this.client.getLatencyStats();
+  }
+
+  /**
+   * Circuit breaker state of the endpoint groups used so far
+   */
+  getCircuitStatus(): CircuitBreakerStatus[] {
+    return this.client.getCircuitStatus();
+  }
+
+  /**
+   * Listen to circuit breaker state changes; returns an unsubscribe function
+   */
+  onCircuitChange(listener: (status: CircuitBreakerStatus) => void): () => void {
+    return this.client.on('circuit', listener);
+  }
+
+  private async postApiKey(headers: L1Headers, options: RequestOptions): Promise<L2Credentials> {
+    const response = await this.client.post<ApiKeyCredsResponse>(
+      ENDPOINTS.CREATE_API_KEY,
+      undefined,
+      ApiKeyCredsResponseSchema,
+      { ...requestConfig(options), headers: { ...headers } }
+    );
+    return { ...response, address: headers.POLY_ADDRESS };
+  }
+
+  private async getDerivedApiKey(headers: L1Headers, options: RequestOptions): Promise<L2Credentials> {
+    const response = await this.client.get<ApiKeyCredsResponse>(
+      ENDPOINTS.DERIVE_API_KEY,
+      ApiKeyCredsResponseSchema,
+      { ...requestConfig(options), headers: { ...headers } }
+    );
+    return { ...response, address: headers.POLY_ADDRESS };
+  }
+
+  private l1Headers(signer: WalletSigner, nonce: number) {
+    return createL1Headers(signer, {
+      chainId: this.environments.get().chainId ?? API_CONFIG.CHAIN_ID,
+      timestamp: Math.floor(Date.now() / 1000),
+      nonce,
+    });
+  }
 }
 
 // Create and export singleton instance
 export const polymarketClient = new PolymarketClient();
 
 // For backward compatibility, also export the old functions
-export async function fetchOrderBook(tokenId: string): Promise<OrderBook> {
-  return polymarketClient.fetchOrderBook(tokenId);
+export async function fetchOrderBook(tokenId: string, options?: RequestOptions): Promise<OrderBook> {
+  return polymarketClient.fetchOrderBook(tokenId, options);
 }
 
-export async function fetchMarket(conditionId: string): Promise<Market> {
-  return polymarketClient.fetchMarket(conditionId);
+export async function fetchMarket(conditionId: string, options?: RequestOptions): Promise<Market> {
+  return polymarketClient.fetchMarket(conditionId, options);
 }
 
 // Additional utility exports
-export async function fetchPrice(tokenId: string, side: 'BUY' | 'SELL'): Promise<string> {
-  return polymarketClient.fetchPrice(tokenId, side);
+export async function fetchPrice(tokenId: string, side: 'BUY' | 'SELL', options?: RequestOptions): Promise<string> {
+  return polymarketClient.fetchPrice(tokenId, side, options);
 }
 
-export async function fetchMidpoint(tokenId: string): Promise<string> {
-  return polymarketClient.fetchMidpoint(tokenId);
+export async function fetchMidpoint(tokenId: string, options?: RequestOptions): Promise<string> {
+  return polymarketClient.fetchMidpoint(tokenId, options);
 }
\ No newline at end of file
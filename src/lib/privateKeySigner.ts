@@ -0,0 +1,52 @@
+// File: src/lib/privateKeySigner.ts
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { hashTypedData } from './eip712';
+import type { TypedData, WalletSigner } from './auth';
+
+/**
+ * EIP-55 mixed-case checksum form of an address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  return `0x${[...lower].map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)).join('')}`;
+}
+
+/**
+ * Signer holding a private key in memory, for accounts driven by this app
+ * rather than through a browser wallet (bots, scripts, tests)
+ */
+export class PrivateKeySigner implements WalletSigner {
+  private key: Uint8Array;
+  private address: string;
+
+  constructor(privateKey: string) {
+    const hex = privateKey.replace(/^0x/, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex) || !secp256k1.utils.isValidPrivateKey(hex)) {
+      throw new Error('Invalid secp256k1 private key');
+    }
+    this.key = hexToBytes(hex);
+
+    // Uncompressed public key without its 0x04 prefix
+    const publicKey = secp256k1.getPublicKey(this.key, false).slice(1);
+    this.address = toChecksumAddress(bytesToHex(keccak_256(publicKey).slice(12)));
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  /**
+   * 65-byte `r ‖ s ‖ v` signature with low s, v being 27 or 28
+   */
+  public async signTypedData(data: TypedData): Promise<string> {
+    const signature = secp256k1.sign(hashTypedData(data), this.key, { lowS: true });
+    // Recovery ids 2 and 3 (r overflowing the group order) have no Ethereum v
+    if (signature.recovery > 1) {
+      throw new Error('Signature cannot be expressed with an Ethereum recovery id');
+    }
+    return `0x${bytesToHex(concatBytes(signature.toCompactRawBytes(), new Uint8Array([27 + signature.recovery])))}`;
+  }
+}
@@ -0,0 +1,66 @@
+// File: src/lib/quarantine.ts
+import type { ZodIssue } from 'zod';
+
+/**
+ * An inbound message rejected before it reached the local book
+ */
+export interface QuarantinedMessage {
+  /** Local receive time in milliseconds */
+  receivedAt: number;
+  /** The message as received: raw frame text, or the parsed message */
+  data: unknown;
+  /** `event_type` of the message, if it had one */
+  eventType?: string;
+  /** Asset the message was for, if it named one */
+  assetId?: string;
+  /** Why the message was rejected */
+  errors: string[];
+}
+
+/**
+ * Describe zod issues as `path: message` lines
+ */
+export function formatIssues(issues: ZodIssue[]): string[] {
+  return issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Bounded buffer of rejected messages, oldest dropped first, kept for
+ * inspection while debugging a feed
+ */
+export class MessageQuarantine {
+  private capacity: number;
+  private messages: QuarantinedMessage[] = [];
+  private total = 0;
+
+  constructor(capacity = 100) {
+    this.capacity = capacity;
+  }
+
+  public add(message: QuarantinedMessage): void {
+    this.total++;
+    this.messages.push(message);
+    if (this.messages.length > this.capacity) {
+      this.messages.shift();
+    }
+  }
+
+  /**
+   * Buffered messages, oldest first
+   */
+  public getMessages(): QuarantinedMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Messages quarantined since creation, including those already dropped
+   * from the buffer
+   */
+  public getTotal(): number {
+    return this.total;
+  }
+
+  public clear(): void {
+    this.messages = [];
+  }
+}
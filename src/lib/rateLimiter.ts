@@ -0,0 +1,230 @@
+// File: src/lib/rateLimiter.ts
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import type { RateLimitInfo } from '@/types/api';
+
+/**
+ * REST endpoints that share a server-side rate limit
+ */
+export type EndpointGroup = 'book' | 'prices' | 'markets' | 'trades' | 'other';
+
+/**
+ * Requests allowed per window
+ */
+export interface RateLimitConfig {
+  /** Max requests per window */
+  maxRequests: number;
+  /** Window duration in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Conservative defaults, below the published CLOB limits so that bursts from
+ * several components stay clear of 429s
+ */
+export const DEFAULT_RATE_LIMITS: Record<EndpointGroup, RateLimitConfig> = {
+  book: { maxRequests: 50, windowMs: 10000 },
+  prices: { maxRequests: 100, windowMs: 10000 },
+  markets: { maxRequests: 50, windowMs: 10000 },
+  trades: { maxRequests: 50, windowMs: 10000 },
+  other: { maxRequests: 100, windowMs: 10000 },
+};
+
+const ENDPOINT_GROUP_PATTERNS: Array<[RegExp, EndpointGroup]> = [
+  [/^\/books?(\/|$)/, 'book'],
+  [/^\/(prices?|midpoints?|spreads?|prices-history)(\/|$)/, 'prices'],
+  [/^\/(markets|sampling-markets|simplified-markets|sampling-simplified-markets)(\/|$)/, 'markets'],
+  [/^\/(data\/)?trades(\/|$)/, 'trades'],
+];
+
+/**
+ * Endpoint group of a request URL, absolute or relative to the API base URL
+ */
+export function endpointGroupFor(url: string): EndpointGroup {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+  const match = ENDPOINT_GROUP_PATTERNS.find(([pattern]) => pattern.test(path));
+  return match ? match[1] : 'other';
+}
+
+/**
+ * Token bucket for one endpoint group. Requests wait in FIFO order for a
+ * token; tokens refill continuously at `maxRequests` per window.
+ */
+class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private serverInfo: RateLimitInfo | null = null;
+  private queue: Array<() => void> = [];
+  private timer: TimerHandle | null = null;
+
+  constructor(private config: RateLimitConfig, private clock: Clock) {
+    this.capacity = config.maxRequests;
+    this.refillPerMs = config.maxRequests / config.windowMs;
+    this.tokens = config.maxRequests;
+    this.lastRefill = clock.now();
+  }
+
+  public acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      // An aborted request gives up its place in the queue
+      const onAbort = () => {
+        this.queue = this.queue.filter(waiter => waiter !== release);
+        reject(signal?.reason);
+      };
+      const release = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(release);
+      this.drain();
+    });
+  }
+
+  /**
+   * Adopt the server's view of the limit when it is stricter than ours
+   */
+  public tighten(info: RateLimitInfo): void {
+    this.refill();
+    this.serverInfo = info;
+    if (info.limit > 0 && info.limit < this.capacity) {
+      this.capacity = info.limit;
+    }
+    this.tokens = Math.min(this.tokens, Math.max(0, info.remaining));
+    if (info.exceeded) {
+      this.blockedUntil = Math.max(this.blockedUntil, info.resetTime);
+    }
+    this.drain();
+  }
+
+  public getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Whether the server reported the limit exhausted and its window is still
+   * running
+   */
+  public isBlocked(): boolean {
+    return this.clock.now() < this.blockedUntil;
+  }
+
+  public getInfo(): RateLimitInfo {
+    this.refill();
+    const now = this.clock.now();
+    const remaining = now < this.blockedUntil ? 0 : Math.floor(this.tokens);
+    const resetTime = Math.max(
+      this.blockedUntil,
+      now + Math.ceil((this.capacity - this.tokens) / this.refillPerMs)
+    );
+
+    return {
+      limit: this.serverInfo?.limit || this.config.maxRequests,
+      remaining,
+      resetTime,
+      resetIn: Math.max(0, Math.ceil((resetTime - now) / 1000)),
+      exceeded: remaining <= 0,
+      queued: this.queue.length,
+    };
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    const now = this.clock.now();
+
+    while (this.queue.length > 0 && now >= this.blockedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()?.();
+    }
+
+    if (this.queue.length === 0 || this.timer) return;
+
+    // Wake up when the next token is due, or when the server's block lifts
+    const wait = now < this.blockedUntil
+      ? this.blockedUntil - now
+      : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(1, wait));
+  }
+}
+
+/**
+ * Client-side rate limiter with one token bucket per endpoint group.
+ * Requests over the limit are queued rather than rejected.
+ */
+export class RateLimiter {
+  private buckets = new Map<EndpointGroup, TokenBucket>();
+
+  constructor(
+    private limits: Record<EndpointGroup, RateLimitConfig> = DEFAULT_RATE_LIMITS,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Resolve once a request to the group may be sent; rejects with the
+   * signal's reason if it is aborted while waiting
+   */
+  public acquire(group: EndpointGroup, signal?: AbortSignal): Promise<void> {
+    return this.getBucket(group).acquire(signal);
+  }
+
+  /**
+   * Apply rate limit headers from a response of the group
+   */
+  public update(group: EndpointGroup, info: RateLimitInfo): void {
+    this.getBucket(group).tighten(info);
+  }
+
+  /**
+   * Requests waiting for a token, in one group or in all of them
+   */
+  public getQueueDepth(group?: EndpointGroup): number {
+    if (group) return this.buckets.get(group)?.getQueueDepth() ?? 0;
+
+    let depth = 0;
+    this.buckets.forEach(bucket => {
+      depth += bucket.getQueueDepth();
+    });
+    return depth;
+  }
+
+  /**
+   * Whether the server has blocked the group until its window resets
+   */
+  public isBlocked(group: EndpointGroup): boolean {
+    return this.buckets.get(group)?.isBlocked() ?? false;
+  }
+
+  /**
+   * Current limit, remaining requests and queue depth of a group
+   */
+  public getInfo(group: EndpointGroup): RateLimitInfo {
+    return this.getBucket(group).getInfo();
+  }
+
+  private getBucket(group: EndpointGroup): TokenBucket {
+    let bucket = this.buckets.get(group);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits[group], this.clock);
+      this.buckets.set(group, bucket);
+    }
+    return bucket;
+  }
+}
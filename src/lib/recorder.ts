@@ -0,0 +1,77 @@
+// File: src/lib/recorder.ts
+
+/**
+ * A raw inbound WebSocket frame with the time it was received
+ */
+export interface RecordedFrame {
+  /** Receive time in milliseconds since the epoch */
+  receivedAt: number;
+  /** Frame payload exactly as received */
+  data: string;
+}
+
+/**
+ * Destination for frames captured by OrderBookSocket
+ */
+export interface FrameRecorder {
+  record(frame: RecordedFrame): void;
+}
+
+/**
+ * Serialize frames as NDJSON, one frame per line
+ */
+export function framesToNdjson(frames: RecordedFrame[]): string {
+  return frames.map(frame => JSON.stringify(frame) + '\n').join('');
+}
+
+/**
+ * Parse an NDJSON recording, skipping blank lines
+ */
+export function parseNdjson(text: string): RecordedFrame[] {
+  return text
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map((line, index) => {
+      const frame = JSON.parse(line);
+      if (typeof frame.receivedAt !== 'number' || typeof frame.data !== 'string') {
+        throw new Error(`Invalid recorded frame on line ${index + 1}`);
+      }
+      return { receivedAt: frame.receivedAt, data: frame.data };
+    });
+}
+
+/**
+ * Records a WebSocket session as NDJSON. Frames are kept in memory and can
+ * also be streamed line by line to a sink (e.g. a file append in Node).
+ */
+export class NdjsonRecorder implements FrameRecorder {
+  private frames: RecordedFrame[] = [];
+  private sink?: (line: string) => void;
+
+  constructor(sink?: (line: string) => void) {
+    this.sink = sink;
+  }
+
+  public record(frame: RecordedFrame): void {
+    this.frames.push(frame);
+    this.sink?.(JSON.stringify(frame) + '\n');
+  }
+
+  /**
+   * Frames recorded so far
+   */
+  public getFrames(): RecordedFrame[] {
+    return [...this.frames];
+  }
+
+  /**
+   * The whole recording as NDJSON
+   */
+  public toNdjson(): string {
+    return framesToNdjson(this.frames);
+  }
+
+  public clear(): void {
+    this.frames = [];
+  }
+}
@@ -0,0 +1,227 @@
+// File: src/lib/replay.ts
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import { parseNdjson } from './recorder';
+import type { RecordedFrame } from './recorder';
+import type { OrderBookSocketOptions } from './websocket';
+
+/**
+ * Playback speed: a multiple of the original speed, or 'step' to deliver
+ * frames only when `step()` is called
+ */
+export type ReplaySpeed = number | 'step';
+
+/**
+ * Socket options that keep a replayed socket off the network
+ */
+export type ReplaySocketOptions = Required<
+  Pick<OrderBookSocketOptions, 'createWebSocket' | 'fetchSnapshot' | 'fetchSnapshots' | 'pollingFallback'>
+>;
+
+/**
+ * Options for SessionReplay
+ */
+export interface SessionReplayOptions {
+  /** Playback speed (default: 1, the original speed) */
+  speed?: ReplaySpeed;
+  /** Clock used to pace playback */
+  clock?: Clock;
+}
+
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+const WS_CLOSED = 3;
+
+/**
+ * Stand-in for a browser WebSocket whose inbound frames come from a replay
+ */
+class ReplayWebSocket {
+  public readyState = WS_CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  private onClosed: () => void;
+
+  constructor(public readonly url: string, onClosed: () => void) {
+    this.onClosed = onClosed;
+  }
+
+  public open(): void {
+    this.readyState = WS_OPEN;
+    this.onopen?.({ type: 'open' } as Event);
+  }
+
+  public deliver(data: string): void {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  // Outbound frames (subscriptions, pings) have no server to go to
+  public send(): void {}
+
+  public close(code = 1000, reason = ''): void {
+    if (this.readyState === WS_CLOSED) return;
+    this.readyState = WS_CLOSED;
+    this.onClosed();
+    this.onclose?.({ code, reason } as CloseEvent);
+  }
+}
+
+// A recording holds no REST responses; a diverged book waits for its next recorded snapshot
+const noSnapshot = (): Promise<never> =>
+  Promise.reject(new Error('REST snapshots are not available while replaying a recorded session'));
+
+/**
+ * Replays a recorded session through OrderBookSocket's normal message
+ * pipeline. Spread `replay.socketOptions` into the socket's options; frames
+ * are delivered as if they arrived from the server, at the original pace,
+ * N times faster, or one step at a time.
+ */
+export class SessionReplay {
+  private frames: RecordedFrame[];
+  private speed: ReplaySpeed;
+  private clock: Clock;
+  private position = 0;
+  private socket: ReplayWebSocket | null = null;
+  private timer: TimerHandle | null = null;
+  private paused = false;
+
+  constructor(frames: RecordedFrame[], options: SessionReplayOptions = {}) {
+    this.frames = frames;
+    this.speed = SessionReplay.checkSpeed(options.speed ?? 1);
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Create a replay from an NDJSON recording
+   */
+  public static fromNdjson(text: string, options: SessionReplayOptions = {}): SessionReplay {
+    return new SessionReplay(parseNdjson(text), options);
+  }
+
+  /**
+   * WebSocket factory for OrderBookSocket. The socket opens asynchronously,
+   * like a real one, and playback continues on whichever socket is newest.
+   */
+  public createWebSocket = (url: string): WebSocket => {
+    const socket: ReplayWebSocket = new ReplayWebSocket(url, () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.cancelTimer();
+      }
+    });
+    this.socket = socket;
+
+    this.clock.setTimeout(() => {
+      if (socket.readyState !== WS_CONNECTING) return;
+      socket.open();
+      this.scheduleNext();
+    }, 0);
+
+    return socket as unknown as WebSocket;
+  };
+
+  /**
+   * Options for OrderBookSocket or MarketSocketManager: the replayed
+   * transport, and no REST snapshots or polling
+   */
+  public get socketOptions(): ReplaySocketOptions {
+    return {
+      createWebSocket: this.createWebSocket,
+      fetchSnapshot: noSnapshot,
+      fetchSnapshots: noSnapshot,
+      pollingFallback: false,
+    };
+  }
+
+  /**
+   * Deliver the next `count` frames immediately, whatever the speed
+   */
+  public step(count = 1): number {
+    let delivered = 0;
+    while (delivered < count && this.deliverNext()) {
+      delivered++;
+    }
+    return delivered;
+  }
+
+  /**
+   * Stop timed playback; `step()` keeps working
+   */
+  public pause(): void {
+    this.paused = true;
+    this.cancelTimer();
+  }
+
+  /**
+   * Resume timed playback
+   */
+  public resume(): void {
+    this.paused = false;
+    this.scheduleNext();
+  }
+
+  /**
+   * Change the playback speed; takes effect from the next frame
+   */
+  public setSpeed(speed: ReplaySpeed): void {
+    this.speed = SessionReplay.checkSpeed(speed);
+    this.cancelTimer();
+    this.scheduleNext();
+  }
+
+  /**
+   * Index of the next frame to deliver
+   */
+  public getPosition(): number {
+    return this.position;
+  }
+
+  public getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  public isFinished(): boolean {
+    return this.position >= this.frames.length;
+  }
+
+  private deliverNext(): boolean {
+    if (!this.socket || this.socket.readyState !== WS_OPEN || this.isFinished()) {
+      return false;
+    }
+
+    const frame = this.frames[this.position++];
+    this.socket.deliver(frame.data);
+    return true;
+  }
+
+  private scheduleNext(): void {
+    if (this.paused || this.speed === 'step' || this.timer || this.isFinished()) return;
+    if (!this.socket || this.socket.readyState !== WS_OPEN) return;
+
+    // The first frame plays right away; later ones keep their recorded spacing
+    const previous = this.frames[this.position - 1];
+    const gap = previous ? this.frames[this.position].receivedAt - previous.receivedAt : 0;
+    const delay = Math.max(0, gap) / this.speed;
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.deliverNext();
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private static checkSpeed(speed: ReplaySpeed): ReplaySpeed {
+    if (speed !== 'step' && !(speed > 0 && Number.isFinite(speed))) {
+      throw new Error(`Invalid replay speed ${speed}: expected a positive number or 'step'`);
+    }
+    return speed;
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
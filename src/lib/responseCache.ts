@@ -0,0 +1,255 @@
+// File: src/lib/responseCache.ts
+import { systemClock } from './clock';
+import type { Clock } from './clock';
+
+/**
+ * How long responses of an endpoint may be served from the cache
+ */
+export interface CachePolicy {
+  /** Time a response is served as fresh */
+  ttlMs: number;
+  /** Further time a stale response is served while it is refetched in the background */
+  staleWhileRevalidateMs?: number;
+  /** Also keep the response in the persistent store, across page loads */
+  persist?: boolean;
+}
+
+/**
+ * A cached response body
+ */
+export interface CacheEntry {
+  /** Raw response data; serializable so persistent stores can hold it */
+  value: unknown;
+  storedAt: number;
+  /** Served as fresh until then */
+  expiresAt: number;
+  /** Served as stale, with a background refresh, until then */
+  staleUntil: number;
+}
+
+/**
+ * Storage tier behind ResponseCache
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Cache store in memory, dropping the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Cache store in localStorage. Keys are namespaced so invalidation never
+ * touches unrelated items; quota errors are ignored, the cache is best effort.
+ */
+export class LocalStorageCacheStore implements CacheStore {
+  constructor(private namespace = 'polymarket-cache:', private storage: Storage = localStorage) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const raw = this.storage.getItem(this.namespace + key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      this.storage.removeItem(this.namespace + key);
+      return undefined;
+    }
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      this.storage.setItem(this.namespace + key, JSON.stringify(entry));
+    } catch (error) {
+      console.warn('Response cache write to localStorage failed:', error);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.storage.removeItem(this.namespace + key);
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.namespace)) keys.push(key.slice(this.namespace.length));
+    }
+    return keys;
+  }
+}
+
+/**
+ * Cache store in an IndexedDB object store, for larger responses than
+ * localStorage comfortably holds
+ */
+export class IndexedDbCacheStore implements CacheStore {
+  private static STORE = 'responses';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName = 'polymarket-cache') {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    return this.request('readonly', store => store.get(key)) as Promise<CacheEntry | undefined>;
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry, key));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', store => store.getAllKeys());
+    return (keys as IDBValidKey[]).map(String);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IndexedDbCacheStore.STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(IndexedDbCacheStore.STORE, mode).objectStore(IndexedDbCacheStore.STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Result of a cache lookup
+ */
+export type CacheLookup =
+  | { state: 'fresh'; value: unknown }
+  | { state: 'stale'; value: unknown }
+  | { state: 'miss' };
+
+/**
+ * Two-tier response cache: a memory tier in front of an optional persistent
+ * store. Entries are written to the persistent store only when their policy
+ * asks for it.
+ */
+export class ResponseCache {
+  private memory: CacheStore;
+  private persistent: CacheStore | null;
+  private clock: Clock;
+
+  constructor(options: { memory?: CacheStore; persistent?: CacheStore | null; clock?: Clock } = {}) {
+    this.memory = options.memory ?? new MemoryCacheStore();
+    this.persistent = options.persistent ?? null;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public async lookup(key: string): Promise<CacheLookup> {
+    let entry = await this.memory.get(key);
+    if (!entry && this.persistent) {
+      entry = await this.readPersistent(key);
+      if (entry) await this.memory.set(key, entry);
+    }
+    if (!entry) return { state: 'miss' };
+
+    const now = this.clock.now();
+    if (now < entry.expiresAt) return { state: 'fresh', value: entry.value };
+    if (now < entry.staleUntil) return { state: 'stale', value: entry.value };
+
+    await this.delete(key);
+    return { state: 'miss' };
+  }
+
+  public async store(key: string, value: unknown, policy: CachePolicy): Promise<void> {
+    const now = this.clock.now();
+    const entry: CacheEntry = {
+      value,
+      storedAt: now,
+      expiresAt: now + policy.ttlMs,
+      staleUntil: now + policy.ttlMs + (policy.staleWhileRevalidateMs ?? 0),
+    };
+
+    await this.memory.set(key, entry);
+    if (policy.persist && this.persistent) {
+      await this.persistent.set(key, entry).catch((error) => {
+        console.warn(`Persisting cached response ${key} failed:`, error);
+      });
+    }
+  }
+
+  /**
+   * Drop every entry whose key starts with `prefix`; returns how many
+   */
+  public async invalidate(prefix = ''): Promise<number> {
+    const stores = this.persistent ? [this.memory, this.persistent] : [this.memory];
+    const removed = new Set<string>();
+
+    await Promise.all(stores.map(async (store) => {
+      const keys = (await store.keys()).filter(key => key.startsWith(prefix));
+      await Promise.all(keys.map(key => store.delete(key)));
+      keys.forEach(key => removed.add(key));
+    }));
+
+    return removed.size;
+  }
+
+  private async delete(key: string): Promise<void> {
+    await this.memory.delete(key);
+    await this.persistent?.delete(key);
+  }
+
+  // A broken persistent tier degrades to memory-only caching
+  private async readPersistent(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.persistent?.get(key);
+    } catch (error) {
+      console.warn(`Reading cached response ${key} failed:`, error);
+      return undefined;
+    }
+  }
+}
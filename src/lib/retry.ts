@@ -0,0 +1,72 @@
+// File: src/lib/retry.ts
+import { systemClock } from './clock';
+import type { Clock } from './clock';
+
+/**
+ * Retries allowed per window, shared by all requests of a client
+ */
+export interface RetryBudgetConfig {
+  /** Max retries per window */
+  maxRetries: number;
+  /** Window duration in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Parse a Retry-After header, given either as delay seconds or as an HTTP
+ * date. Returns the wait in milliseconds, or null if the header is missing or
+ * malformed.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Sliding-window budget of retries. When a burst of failures exhausts it,
+ * further failures surface immediately instead of multiplying the load on a
+ * struggling server.
+ */
+export class RetryBudget {
+  private config: RetryBudgetConfig;
+  private clock: Clock;
+  private spent: number[] = [];
+
+  constructor(config: RetryBudgetConfig, clock: Clock = systemClock) {
+    this.config = config;
+    this.clock = clock;
+  }
+
+  /**
+   * Take one retry from the budget; false if none is left
+   */
+  public tryConsume(): boolean {
+    this.trim();
+    if (this.spent.length >= this.config.maxRetries) return false;
+
+    this.spent.push(this.clock.now());
+    return true;
+  }
+
+  /**
+   * Retries left in the current window
+   */
+  public getRemaining(): number {
+    this.trim();
+    return this.config.maxRetries - this.spent.length;
+  }
+
+  private trim(): void {
+    const cutoff = this.clock.now() - this.config.windowMs;
+    while (this.spent.length > 0 && this.spent[0] <= cutoff) {
+      this.spent.shift();
+    }
+  }
+}
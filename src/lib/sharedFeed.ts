@@ -0,0 +1,610 @@
+// File: src/lib/sharedFeed.ts
+import Decimal from 'decimal.js';
+
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import { apiEnvironment } from './environment';
+import type { ApiEnvironmentManager } from './environment';
+import { toSnapshotUpdate } from './localBook';
+import { fetchOrderBook } from './polymarket';
+import { MarketSocketManager } from './socketManager';
+import type { MarketFeed, MarketFeedListener } from './socketManager';
+import type { OrderBookSocketOptions } from './websocket';
+import type {
+  OrderBook,
+  OrderBookUpdate,
+  ConnectionStatus,
+  TickSizeChange,
+  BookSyncStats,
+  TradeTapeUpdate,
+  FeedHealth,
+} from '@/types/orderbook';
+
+/**
+ * The parts of BroadcastChannel the shared feed relies on
+ */
+export interface FeedChannel {
+  postMessage(message: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(): void;
+}
+
+/**
+ * A feed event for one token, as relayed from the leader tab
+ */
+type FeedEvent =
+  | { kind: 'update'; book: OrderBook; update: OrderBookUpdate }
+  | { kind: 'tickSize'; change: TickSizeChange }
+  | { kind: 'sync'; stats: BookSyncStats }
+  | { kind: 'trade'; update: TradeTapeUpdate }
+  | { kind: 'health'; health: FeedHealth };
+
+/**
+ * Announcement of a leader: `leader` when it takes over, `heartbeat` after.
+ * Each takeover starts a higher term.
+ */
+type LeaderMessage = { type: 'heartbeat' | 'leader'; tabId: string; term: number; hidden: boolean };
+
+/**
+ * Messages exchanged between tabs over the channel
+ */
+type SharedFeedMessage =
+  | LeaderMessage
+  | { type: 'resign'; tabId: string; successor?: string }
+  | { type: 'handover'; tabId: string }
+  | { type: 'candidate'; tabId: string }
+  | { type: 'subscribe'; tabId: string; tokenId: string }
+  | { type: 'unsubscribe'; tabId: string; tokenId: string }
+  | { type: 'bye'; tabId: string }
+  | { type: 'status'; status: ConnectionStatus }
+  | { type: 'event'; tokenId: string; event: FeedEvent; target?: string };
+
+/**
+ * Options for SharedMarketFeed
+ */
+export interface SharedMarketFeedOptions {
+  /**
+   * Prefix of the BroadcastChannel name. The environment's WebSocket URL
+   * completes it: tabs on the same origin, prefix and environment share a feed.
+   */
+  channelName?: string;
+  /** Create the channel; defaults to BroadcastChannel when available */
+  createChannel?: (name: string) => FeedChannel;
+  /** Create the real feed once this tab becomes the leader */
+  createFeed?: () => MarketFeed & { close(): void };
+  /** Fetch the initial REST snapshot of a newly subscribed token (leader only) */
+  fetchSnapshot?: (tokenId: string) => Promise<OrderBook>;
+  /** Interval between leader heartbeats */
+  heartbeatIntervalMs?: number;
+  /** Time without a heartbeat after which the leader is presumed gone */
+  leaseMs?: number;
+  /**
+   * Lease of a leader whose page is hidden, where browsers may run its
+   * timers as rarely as once a minute
+   */
+  hiddenLeaseMs?: number;
+  /** Whether this tab's page is hidden (default: from `document.visibilityState`) */
+  isHidden?: () => boolean;
+  /** Time source and timers */
+  clock?: Clock;
+  /** Options for the leader's OrderBookSocket when `createFeed` is not given */
+  socketOptions?: OrderBookSocketOptions;
+  /** API environment the feed follows (default: the app's) */
+  environments?: ApiEnvironmentManager;
+}
+
+/**
+ * Replace Decimal instances with tagged strings so events survive the
+ * structured clone of postMessage
+ */
+export function encodeDecimals(value: unknown): unknown {
+  if (Decimal.isDecimal(value)) return { __decimal: value.toString() };
+  if (Array.isArray(value)) return value.map(encodeDecimals);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, encodeDecimals(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Inverse of encodeDecimals
+ */
+export function decodeDecimals(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeDecimals);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.__decimal === 'string') return new Decimal(record.__decimal);
+    return Object.fromEntries(
+      Object.entries(record).map(([key, entry]) => [key, decodeDecimals(entry)])
+    );
+  }
+  return value;
+}
+
+function isDocumentHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Market feed shared by every tab of the browser origin.
+ *
+ * Tabs elect a leader over a BroadcastChannel: the leader announces itself
+ * with heartbeats and, among competing leaders, the one of the latest term
+ * wins, then the one with the lowest tab ID; a leader that was replaced
+ * while its timers lagged steps down when it hears of the newer one. Only
+ * the leader runs the WebSocket and REST snapshot fetches; it subscribes to
+ * the union of tokens the tabs ask for and relays every event over the
+ * channel. A closing leader names the follower that takes over; one that
+ * stops sending heartbeats is replaced once its lease runs out. A leader
+ * whose page is hidden hands over to a visible tab if there is one, and is
+ * otherwise given a longer lease. Followers re-announce their subscriptions
+ * to every new leader.
+ * Only tabs on the same API environment share a feed; a tab that switches
+ * environment leaves its channel and joins the election of the new one.
+ *
+ * Without BroadcastChannel (e.g. during server rendering) the feed simply
+ * runs locally.
+ */
+export class SharedMarketFeed implements MarketFeed {
+  public readonly tabId = createTabId();
+  private options: Required<Omit<SharedMarketFeedOptions, 'createChannel' | 'socketOptions'>> &
+    Pick<SharedMarketFeedOptions, 'createChannel'>;
+  private clock: Clock;
+  private channel: FeedChannel | null = null;
+  private started = false;
+  // Left the channel when the page was hidden, with listeners kept for its return
+  private suspended = false;
+  private lifecycleBound = false;
+  private leaderId: string | null = null;
+  // Latest election term heard of, and whether the leader said its page was hidden
+  private term = 0;
+  private leaderHidden = false;
+  private lastHeartbeatAt = 0;
+  private electionTimer: TimerHandle | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+
+  // This tab's own listeners, and the last events seen per token for late joiners
+  private listeners = new Map<string, Set<MarketFeedListener>>();
+  private status: ConnectionStatus = 'idle';
+  private cache = new Map<string, Partial<Record<FeedEvent['kind'], FeedEvent>>>();
+
+  // Leader state: the real feed and who wants which token
+  private feed: (MarketFeed & { close(): void }) | null = null;
+  private feedSubscriptions = new Map<string, () => void>();
+  private remoteTokens = new Map<string, Set<string>>();
+
+  constructor(options: SharedMarketFeedOptions = {}) {
+    const socketOptions = options.socketOptions ?? {};
+    this.options = {
+      channelName: options.channelName ?? 'polymarket-market-feed',
+      createChannel: options.createChannel ?? (
+        typeof BroadcastChannel !== 'undefined'
+          ? (name: string) => new BroadcastChannel(name)
+          : undefined
+      ),
+      createFeed: options.createFeed ?? (() => new MarketSocketManager(socketOptions)),
+      fetchSnapshot: options.fetchSnapshot ?? ((tokenId: string) => fetchOrderBook(tokenId)),
+      heartbeatIntervalMs: options.heartbeatIntervalMs ?? 1000,
+      leaseMs: options.leaseMs ?? 3000,
+      hiddenLeaseMs: options.hiddenLeaseMs ?? 70000,
+      isHidden: options.isHidden ?? isDocumentHidden,
+      clock: options.clock ?? systemClock,
+      environments: options.environments ?? apiEnvironment,
+    };
+    this.clock = this.options.clock;
+
+    // Deltas of the old environment's leader must not reach books of the new one
+    this.options.environments.onChange(() => {
+      if (!this.started) return;
+      this.leave();
+      this.start();
+    });
+  }
+
+  public subscribe(tokenId: string, listener: MarketFeedListener): () => void {
+    this.start();
+
+    let tokenListeners = this.listeners.get(tokenId);
+    const isNewToken = !tokenListeners;
+    if (!tokenListeners) {
+      tokenListeners = new Set();
+      this.listeners.set(tokenId, tokenListeners);
+    }
+    tokenListeners.add(listener);
+
+    // Bring late joiners up to date with what this tab has already seen
+    listener.onStatusChange?.(this.status);
+    Object.values(this.cache.get(tokenId) ?? {}).forEach(event => {
+      if (event) SharedMarketFeed.dispatch(listener, event);
+    });
+
+    if (isNewToken) {
+      if (this.isLeader()) {
+        this.syncFeedSubscriptions();
+      } else {
+        this.post({ type: 'subscribe', tabId: this.tabId, tokenId });
+      }
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      this.removeListener(tokenId, listener);
+    };
+  }
+
+  /**
+   * Whether this tab currently runs the shared connection
+   */
+  public isLeader(): boolean {
+    return this.leaderId === this.tabId;
+  }
+
+  /**
+   * Tab ID of the current leader, if one is known
+   */
+  public getLeaderId(): string | null {
+    return this.leaderId;
+  }
+
+  public getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Leave the shared feed; another tab takes over if this one was the leader
+   */
+  public close(): void {
+    this.suspended = false;
+    this.listeners.clear();
+    if (this.started) this.leave();
+  }
+
+  // Stop taking part in the election and drop what the feed produced so far,
+  // keeping this tab's listeners
+  private leave(): void {
+    this.started = false;
+
+    if (this.isLeader()) {
+      // Any tab that asked for tokens will do; the lowest ID is as good as any
+      this.handOver([...this.remoteTokens.keys()].sort()[0]);
+    } else {
+      this.post({ type: 'bye', tabId: this.tabId });
+    }
+
+    if (this.electionTimer) {
+      this.clock.clearInterval(this.electionTimer);
+      this.electionTimer = null;
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.leaderId = null;
+    this.term = 0;
+    this.leaderHidden = false;
+    this.cache.clear();
+    this.status = 'idle';
+  }
+
+  private start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.suspended = false;
+
+    if (!this.options.createChannel) {
+      // Nobody to share with: lead alone
+      this.becomeLeader();
+      return;
+    }
+
+    const { wsUrl } = this.options.environments.get();
+    this.channel = this.options.createChannel(`${this.options.channelName}:${wsUrl}`);
+    this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data as SharedFeedMessage);
+
+    // Give a running leader one lease period to make itself known
+    this.lastHeartbeatAt = this.clock.now();
+    this.updateStatus('connecting');
+    this.electionTimer = this.clock.setInterval(() => this.checkLeader(), this.options.heartbeatIntervalMs);
+    this.bindPageLifecycle();
+  }
+
+  /**
+   * Leave the channel while the page is hidden, so that other tabs do not
+   * wait on a frozen leader, and rejoin when it is restored from the
+   * back/forward cache. Subscribers stay attached throughout. A leader
+   * whose page is merely hidden offers the role to visible tabs instead.
+   */
+  private bindPageLifecycle(): void {
+    if (this.lifecycleBound || typeof window === 'undefined') return;
+    this.lifecycleBound = true;
+
+    document.addEventListener('visibilitychange', () => {
+      if (!this.started) return;
+      if (this.isLeader()) {
+        if (this.options.isHidden()) this.post({ type: 'handover', tabId: this.tabId });
+      } else if (this.leaderHidden && !this.options.isHidden()) {
+        this.post({ type: 'candidate', tabId: this.tabId });
+      }
+    });
+
+    window.addEventListener('pagehide', () => {
+      if (!this.started) return;
+      this.leave();
+      this.suspended = true;
+    });
+    window.addEventListener('pageshow', (event: PageTransitionEvent) => {
+      // The next leader hears of this tab's tokens as after any election
+      if (event.persisted && this.suspended) this.start();
+    });
+  }
+
+  private checkLeader(): void {
+    if (this.isLeader()) return;
+    const leaseMs = this.leaderHidden ? this.options.hiddenLeaseMs : this.options.leaseMs;
+    if (this.clock.now() - this.lastHeartbeatAt > leaseMs) {
+      this.becomeLeader();
+    }
+  }
+
+  private handleMessage(message: SharedFeedMessage): void {
+    switch (message.type) {
+      case 'heartbeat':
+      case 'leader':
+        this.handleLeaderAnnouncement(message);
+        break;
+      case 'resign':
+        if (message.tabId !== this.leaderId) break;
+        if (message.successor === this.tabId) {
+          this.becomeLeader();
+        } else {
+          // Wait for the successor to announce itself. Without one, the
+          // leader knew of no tab with subscriptions, so the lease decides.
+          this.leaderId = message.successor ?? null;
+          this.leaderHidden = false;
+          this.lastHeartbeatAt = this.clock.now();
+        }
+        break;
+      case 'handover':
+        if (message.tabId !== this.leaderId) break;
+        this.leaderHidden = true;
+        if (!this.options.isHidden()) this.post({ type: 'candidate', tabId: this.tabId });
+        break;
+      case 'candidate':
+        // The first visible tab to answer takes over
+        if (this.isLeader() && this.options.isHidden()) this.handOver(message.tabId);
+        break;
+      case 'subscribe':
+        if (this.isLeader()) this.addRemoteToken(message.tabId, message.tokenId);
+        break;
+      case 'unsubscribe':
+        if (this.isLeader()) {
+          this.remoteTokens.get(message.tabId)?.delete(message.tokenId);
+          this.syncFeedSubscriptions();
+        }
+        break;
+      case 'bye':
+        if (this.isLeader()) {
+          this.remoteTokens.delete(message.tabId);
+          this.syncFeedSubscriptions();
+        }
+        break;
+      case 'status':
+        if (!this.isLeader()) this.updateStatus(message.status);
+        break;
+      case 'event':
+        if (this.isLeader() || (message.target && message.target !== this.tabId)) return;
+        this.deliver(message.tokenId, decodeDecimals(message.event) as FeedEvent);
+        break;
+    }
+  }
+
+  private handleLeaderAnnouncement(message: LeaderMessage): void {
+    const { tabId, term } = message;
+    if (this.isLeader()) {
+      if (term < this.term || (term === this.term && tabId > this.tabId)) {
+        // We outrank the other leader; make sure it hears about us
+        this.post(this.announcement('heartbeat'));
+        return;
+      }
+      this.resignLeadership();
+    } else if (tabId !== this.leaderId && term < this.term) {
+      // Late heartbeat of a leader that has since been replaced
+      return;
+    }
+
+    const leaderChanged = this.leaderId !== tabId;
+    const isNewLeader = message.type === 'leader';
+    this.leaderId = tabId;
+    this.term = term;
+    this.leaderHidden = message.hidden;
+    this.lastHeartbeatAt = this.clock.now();
+
+    // A new leader knows nothing about our subscriptions yet
+    if (leaderChanged || isNewLeader) {
+      this.listeners.forEach((_, tokenId) => {
+        this.post({ type: 'subscribe', tabId: this.tabId, tokenId });
+      });
+    }
+  }
+
+  private becomeLeader(): void {
+    if (this.isLeader()) return;
+
+    this.leaderId = this.tabId;
+    this.term++;
+    this.feed = this.options.createFeed();
+    this.post(this.announcement('leader'));
+    this.heartbeatTimer = this.clock.setInterval(() => {
+      this.post(this.announcement('heartbeat'));
+    }, this.options.heartbeatIntervalMs);
+
+    this.syncFeedSubscriptions();
+  }
+
+  private announcement(type: LeaderMessage['type']): LeaderMessage {
+    return { type, tabId: this.tabId, term: this.term, hidden: this.options.isHidden() };
+  }
+
+  // Give up leadership to `successor`, or to whoever wins the next election
+  private handOver(successor: string | undefined): void {
+    this.resignLeadership();
+    this.post({ type: 'resign', tabId: this.tabId, successor });
+    this.leaderId = successor ?? null;
+    this.leaderHidden = false;
+    this.lastHeartbeatAt = this.clock.now();
+  }
+
+  private resignLeadership(): void {
+    if (this.heartbeatTimer) {
+      this.clock.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.feedSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.feedSubscriptions.clear();
+    this.remoteTokens.clear();
+    this.feed?.close();
+    this.feed = null;
+    if (this.isLeader()) this.leaderId = null;
+  }
+
+  private addRemoteToken(tabId: string, tokenId: string): void {
+    let tokens = this.remoteTokens.get(tabId);
+    if (!tokens) {
+      tokens = new Set();
+      this.remoteTokens.set(tabId, tokens);
+    }
+    tokens.add(tokenId);
+
+    // Catch the tab up with what the feed has produced so far
+    this.post({ type: 'status', status: this.status });
+    Object.values(this.cache.get(tokenId) ?? {}).forEach(event => {
+      if (event) {
+        this.post({ type: 'event', tokenId, event: encodeDecimals(event) as FeedEvent, target: tabId });
+      }
+    });
+
+    this.syncFeedSubscriptions();
+  }
+
+  /**
+   * Subscribe the real feed to exactly the tokens some tab is listening to
+   */
+  private syncFeedSubscriptions(): void {
+    const feed = this.feed;
+    if (!feed) return;
+
+    const wanted = new Set(this.listeners.keys());
+    this.remoteTokens.forEach(tokens => tokens.forEach(tokenId => wanted.add(tokenId)));
+
+    this.feedSubscriptions.forEach((unsubscribe, tokenId) => {
+      if (!wanted.has(tokenId)) {
+        unsubscribe();
+        this.feedSubscriptions.delete(tokenId);
+        this.cache.delete(tokenId);
+      }
+    });
+
+    wanted.forEach(tokenId => {
+      if (this.feedSubscriptions.has(tokenId)) return;
+      this.feedSubscriptions.set(tokenId, feed.subscribe(tokenId, {
+        onUpdate: (book, update) => this.publish(tokenId, { kind: 'update', book, update }),
+        onStatusChange: status => this.publishStatus(status),
+        onTickSizeChange: change => this.publish(tokenId, { kind: 'tickSize', change }),
+        onSyncChange: stats => this.publish(tokenId, { kind: 'sync', stats }),
+        onTrade: update => this.publish(tokenId, { kind: 'trade', update }),
+        onHealthChange: health => this.publish(tokenId, { kind: 'health', health }),
+      }));
+      this.loadSnapshot(tokenId);
+    });
+  }
+
+  // One REST snapshot per token for all tabs, unless the socket was faster
+  private loadSnapshot(tokenId: string): void {
+    this.options.fetchSnapshot(tokenId)
+      .then((book) => {
+        if (!this.feedSubscriptions.has(tokenId) || this.cache.get(tokenId)?.update) return;
+        this.publish(tokenId, { kind: 'update', book, update: toSnapshotUpdate(tokenId, book) });
+      })
+      .catch((error) => {
+        console.error(`Shared feed snapshot for ${tokenId} failed:`, error);
+      });
+  }
+
+  private publish(tokenId: string, event: FeedEvent): void {
+    this.deliver(tokenId, event);
+    this.post({ type: 'event', tokenId, event: encodeDecimals(event) as FeedEvent });
+  }
+
+  private publishStatus(status: ConnectionStatus): void {
+    this.updateStatus(status);
+    this.post({ type: 'status', status });
+  }
+
+  private deliver(tokenId: string, event: FeedEvent): void {
+    let cached = this.cache.get(tokenId);
+    if (!cached) {
+      cached = {};
+      this.cache.set(tokenId, cached);
+    }
+    cached[event.kind] = event;
+
+    this.listeners.get(tokenId)?.forEach(listener => SharedMarketFeed.dispatch(listener, event));
+  }
+
+  private updateStatus(status: ConnectionStatus): void {
+    this.status = status;
+    this.listeners.forEach(tokenListeners =>
+      tokenListeners.forEach(listener => listener.onStatusChange?.(status))
+    );
+  }
+
+  private removeListener(tokenId: string, listener: MarketFeedListener): void {
+    const tokenListeners = this.listeners.get(tokenId);
+    if (!tokenListeners) return;
+
+    tokenListeners.delete(listener);
+    if (tokenListeners.size > 0) return;
+
+    this.listeners.delete(tokenId);
+    if (this.isLeader()) {
+      this.syncFeedSubscriptions();
+    } else {
+      this.cache.delete(tokenId);
+      this.post({ type: 'unsubscribe', tabId: this.tabId, tokenId });
+    }
+  }
+
+  private post(message: SharedFeedMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private static dispatch(listener: MarketFeedListener, event: FeedEvent): void {
+    switch (event.kind) {
+      case 'update':
+        listener.onUpdate?.(event.book, event.update);
+        break;
+      case 'tickSize':
+        listener.onTickSizeChange?.(event.change);
+        break;
+      case 'sync':
+        listener.onSyncChange?.(event.stats);
+        break;
+      case 'trade':
+        listener.onTrade?.(event.update);
+        break;
+      case 'health':
+        listener.onHealthChange?.(event.health);
+        break;
+    }
+  }
+}
+
+// Feed shared by all tabs of this origin; the leader relays at most one book
+// per animation frame
+export const sharedMarketFeed = new SharedMarketFeed({ socketOptions: { coalesce: 'frame' } });
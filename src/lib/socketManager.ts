@@ -0,0 +1,197 @@
+// File: src/lib/socketManager.ts
+import { apiEnvironment } from './environment';
+import { toSnapshotUpdate } from './localBook';
+import type { QuarantinedMessage } from './quarantine';
+import { OrderBookSocket } from './websocket';
+import type { OrderBookSocketOptions } from './websocket';
+import type {
+  OrderBook,
+  OrderBookUpdate,
+  ConnectionStatus,
+  TickSizeChange,
+  BookSyncStats,
+  TradeTapeUpdate,
+  FeedHealth,
+} from '@/types/orderbook';
+
+/**
+ * Listener for the events of a single token on a shared feed
+ */
+export interface MarketFeedListener {
+  /** Called with the full book and the applied change */
+  onUpdate?: (orderBook: OrderBook, update: OrderBookUpdate) => void;
+  /** Called whenever the shared connection status changes */
+  onStatusChange?: (status: ConnectionStatus) => void;
+  /** Called when the token's minimum tick size changes */
+  onTickSizeChange?: (change: TickSizeChange) => void;
+  /** Called when the integrity state of the token's book changes */
+  onSyncChange?: (stats: BookSyncStats) => void;
+  /** Called when the token trades, with its updated trade tape */
+  onTrade?: (update: TradeTapeUpdate) => void;
+  /** Called with the token's feed freshness and delivery metrics */
+  onHealthChange?: (health: FeedHealth) => void;
+}
+
+/**
+ * A source of live market data that consumers subscribe to per token
+ */
+export interface MarketFeed {
+  /**
+   * Start receiving events for a token. Returns a function that removes
+   * the listener again.
+   */
+  subscribe(tokenId: string, listener: MarketFeedListener): () => void;
+}
+
+/**
+ * Multiplexes subscriptions for many tokens onto a single WebSocket.
+ *
+ * Subscriptions are ref-counted per token ID: the first listener for a token
+ * subscribes it on the socket, the last one to leave unsubscribes it, and the
+ * connection itself is closed once no tokens are left.
+ */
+export class MarketSocketManager implements MarketFeed {
+  private socket: OrderBookSocket | null = null;
+  private listeners = new Map<string, Set<MarketFeedListener>>();
+  private status: ConnectionStatus = 'idle';
+  private socketOptions: OrderBookSocketOptions;
+  private stopFollowingEnvironment: (() => void) | null = null;
+
+  constructor(socketOptions: OrderBookSocketOptions = {}) {
+    this.socketOptions = socketOptions;
+  }
+
+  public subscribe(tokenId: string, listener: MarketFeedListener): () => void {
+    let tokenListeners = this.listeners.get(tokenId);
+    if (!tokenListeners) {
+      tokenListeners = new Set();
+      this.listeners.set(tokenId, tokenListeners);
+      this.addToken(tokenId);
+    }
+    tokenListeners.add(listener);
+
+    // Bring late joiners up to date with the shared state
+    listener.onStatusChange?.(this.status);
+    const book = this.socket?.getBook(tokenId);
+    if (book) {
+      listener.onUpdate?.(book, toSnapshotUpdate(tokenId, book));
+    }
+    const trades = this.socket?.getTrades(tokenId);
+    if (trades) {
+      listener.onTrade?.(trades);
+    }
+    const health = this.socket?.getHealth(tokenId);
+    if (health) {
+      listener.onHealthChange?.(health);
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      this.removeListener(tokenId, listener);
+    };
+  }
+
+  /**
+   * Messages the shared socket rejected by validation, oldest first
+   */
+  public getQuarantine(): QuarantinedMessage[] {
+    return this.socket?.getQuarantine() ?? [];
+  }
+
+  /**
+   * Number of listeners currently attached to a token
+   */
+  public getSubscriberCount(tokenId: string): number {
+    return this.listeners.get(tokenId)?.size ?? 0;
+  }
+
+  /**
+   * Token IDs with at least one listener
+   */
+  public getSubscribedTokens(): string[] {
+    return [...this.listeners.keys()];
+  }
+
+  /**
+   * Get current status of the shared connection
+   */
+  public getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Close the shared connection and drop all listeners
+   */
+  public close(): void {
+    this.listeners.clear();
+    this.closeSocket();
+  }
+
+  private addToken(tokenId: string): void {
+    if (this.socket) {
+      this.socket.subscribe([tokenId]);
+      return;
+    }
+
+    this.socket = new OrderBookSocket([tokenId], {
+      onUpdate: (book, update) => {
+        this.listeners.get(update.marketId)?.forEach(listener => listener.onUpdate?.(book, update));
+      },
+      onStatusChange: (status) => {
+        this.status = status;
+        this.listeners.forEach(tokenListeners =>
+          tokenListeners.forEach(listener => listener.onStatusChange?.(status))
+        );
+      },
+      onTickSizeChange: (change) => {
+        this.listeners.get(change.assetId)?.forEach(listener => listener.onTickSizeChange?.(change));
+      },
+      onSyncChange: (stats) => {
+        this.listeners.get(stats.assetId)?.forEach(listener => listener.onSyncChange?.(stats));
+      },
+      onTrade: (update) => {
+        this.listeners.get(update.trade.assetId)?.forEach(listener => listener.onTrade?.(update));
+      },
+      onHealthChange: (health) => {
+        this.listeners.get(health.assetId)?.forEach(listener => listener.onHealthChange?.(health));
+      },
+    }, this.socketOptions);
+
+    // Move the connection along when the API environment is switched
+    if (!this.socketOptions.url) {
+      this.stopFollowingEnvironment = apiEnvironment.onChange(() => this.socket?.reconnect());
+    }
+  }
+
+  private removeListener(tokenId: string, listener: MarketFeedListener): void {
+    const tokenListeners = this.listeners.get(tokenId);
+    if (!tokenListeners) return;
+
+    tokenListeners.delete(listener);
+    if (tokenListeners.size > 0) return;
+
+    this.listeners.delete(tokenId);
+    this.socket?.unsubscribe([tokenId]);
+
+    if (this.listeners.size === 0) {
+      this.closeSocket();
+    }
+  }
+
+  private closeSocket(): void {
+    this.stopFollowingEnvironment?.();
+    this.stopFollowingEnvironment = null;
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.status = 'idle';
+  }
+}
+
+// Shared manager used by every OrderBookProvider on the page; renders at most
+// one book per animation frame
+export const marketSocketManager = new MarketSocketManager({ coalesce: 'frame' });
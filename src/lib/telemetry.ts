@@ -0,0 +1,136 @@
+// File: src/lib/telemetry.ts
+
+/**
+ * Outcome of one REST request, reported once per call after its retries
+ */
+export interface RequestTelemetryEvent {
+  /** HTTP method, upper case */
+  method: string;
+  /** Path with IDs replaced by placeholders, e.g. `/markets/:id` */
+  endpoint: string;
+  /** Requested URL as given to the client */
+  url: string;
+  /** HTTP status; for failures without a response, that of the ApiError (e.g. 408, 499) */
+  status: number;
+  /** From the first send to the final outcome, including client-side queueing and retries */
+  durationMs: number;
+  /** Retries spent on the request */
+  retries: number;
+  /** Size of the response body */
+  bytes: number;
+  /** ApiError code when the request failed */
+  errorCode?: string;
+  startedAt: number;
+}
+
+/**
+ * Receiver of request telemetry, e.g. an exporter to a metrics backend
+ */
+export interface TelemetrySink {
+  onRequest(event: RequestTelemetryEvent): void;
+}
+
+/**
+ * Latency summary of one endpoint
+ */
+export interface EndpointLatencyStats {
+  method: string;
+  endpoint: string;
+  /** Requests seen since the aggregator started */
+  count: number;
+  /** Of those, the failed ones */
+  errors: number;
+  /** Percentiles over the most recent samples, in milliseconds */
+  p50: number;
+  p90: number;
+  p99: number;
+  maxMs: number;
+  /** Response bytes received since the aggregator started */
+  bytes: number;
+}
+
+// Path segments that identify a resource rather than name an endpoint
+const ID_SEGMENT = /^(0x[0-9a-f]+|\d+|[0-9a-f]{8}-[0-9a-f-]{27}|(?=.*\d)[A-Za-z0-9_-]{20,})$/i;
+
+/**
+ * Endpoint template of a request URL: origin and query string dropped, IDs
+ * replaced by `:id` so that requests for different resources group together
+ */
+export function endpointTemplate(url: string): string {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0] || '/';
+  return path
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+interface EndpointSamples {
+  method: string;
+  endpoint: string;
+  count: number;
+  errors: number;
+  bytes: number;
+  /** Ring buffer of recent durations */
+  durations: number[];
+  next: number;
+}
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+/**
+ * In-memory telemetry sink keeping latency percentiles per endpoint over
+ * its most recent `maxSamples` requests
+ */
+export class LatencyAggregator implements TelemetrySink {
+  private endpoints = new Map<string, EndpointSamples>();
+
+  constructor(private maxSamples = 500) {}
+
+  public onRequest(event: RequestTelemetryEvent): void {
+    const key = `${event.method} ${event.endpoint}`;
+    let samples = this.endpoints.get(key);
+    if (!samples) {
+      samples = { method: event.method, endpoint: event.endpoint, count: 0, errors: 0, bytes: 0, durations: [], next: 0 };
+      this.endpoints.set(key, samples);
+    }
+
+    samples.count++;
+    samples.bytes += event.bytes;
+    if (event.errorCode) samples.errors++;
+
+    if (samples.durations.length < this.maxSamples) {
+      samples.durations.push(event.durationMs);
+    } else {
+      samples.durations[samples.next] = event.durationMs;
+      samples.next = (samples.next + 1) % this.maxSamples;
+    }
+  }
+
+  /**
+   * Latency of every endpoint seen, slowest p90 first
+   */
+  public getStats(): EndpointLatencyStats[] {
+    return [...this.endpoints.values()]
+      .map((samples) => {
+        const sorted = [...samples.durations].sort((a, b) => a - b);
+        return {
+          method: samples.method,
+          endpoint: samples.endpoint,
+          count: samples.count,
+          errors: samples.errors,
+          p50: percentile(sorted, 50),
+          p90: percentile(sorted, 90),
+          p99: percentile(sorted, 99),
+          maxMs: sorted[sorted.length - 1] ?? 0,
+          bytes: samples.bytes,
+        };
+      })
+      .sort((a, b) => b.p90 - a.p90);
+  }
+
+  public reset(): void {
+    this.endpoints.clear();
+  }
+}
@@ -0,0 +1,91 @@
+// File: src/lib/tradeTape.ts
+import Decimal from 'decimal.js';
+
+import type { LastTrade, TradePrint, TradeTapeUpdate } from '@/types/orderbook';
+import type { WSLastTradePriceMessage, WSTradeMessage } from '@/types';
+
+/**
+ * Normalize a `trade` or `last_trade_price` event into a trade print
+ */
+export function toTradePrint(
+  message: WSTradeMessage | WSLastTradePriceMessage,
+  fallbackTimestamp: number
+): TradePrint {
+  return {
+    id: message.event_type === 'trade' ? message.id : undefined,
+    assetId: message.asset_id,
+    market: message.market,
+    price: new Decimal(message.price),
+    size: new Decimal(message.size),
+    side: message.side.toLowerCase() === 'buy' ? 'buy' : 'sell',
+    timestamp: parseInt(message.timestamp) || fallbackTimestamp,
+  };
+}
+
+/**
+ * Derive the last-trade indicator from a print and the print before it
+ */
+export function deriveLastTrade(trade: TradePrint, previous?: TradePrint): LastTrade {
+  const priceChange = previous ? trade.price.minus(previous.price) : new Decimal(0);
+  const priceChangePercent = previous && !previous.price.isZero()
+    ? priceChange.dividedBy(previous.price).times(100)
+    : new Decimal(0);
+
+  return {
+    price: trade.price,
+    size: trade.size,
+    timestamp: trade.timestamp,
+    side: trade.side,
+    direction: priceChange.gt(0) ? 'up' : priceChange.lt(0) ? 'down' : 'stable',
+    priceChange,
+    priceChangePercent,
+  };
+}
+
+/**
+ * Rolling buffer of the most recent trades of a single asset
+ */
+export class TradeTape {
+  public readonly assetId: string;
+  private capacity: number;
+  private trades: TradePrint[] = [];
+  private lastTrade: LastTrade | null = null;
+
+  constructor(assetId: string, capacity: number) {
+    this.assetId = assetId;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Add a print to the tape. Returns null for a trade ID already on the tape.
+   */
+  public record(trade: TradePrint): TradeTapeUpdate | null {
+    if (trade.id && this.trades.some(existing => existing.id === trade.id)) {
+      return null;
+    }
+
+    this.lastTrade = deriveLastTrade(trade, this.trades[0]);
+    this.trades = [trade, ...this.trades].slice(0, this.capacity);
+
+    return { trade, lastTrade: this.lastTrade, recentTrades: this.trades };
+  }
+
+  /**
+   * Current state of the tape, or null before the first print
+   */
+  public getUpdate(): TradeTapeUpdate | null {
+    if (!this.lastTrade) return null;
+    return { trade: this.trades[0], lastTrade: this.lastTrade, recentTrades: this.trades };
+  }
+
+  /**
+   * Recent prints, newest first
+   */
+  public getTrades(): TradePrint[] {
+    return this.trades;
+  }
+
+  public getLastTrade(): LastTrade | null {
+    return this.lastTrade;
+  }
+}
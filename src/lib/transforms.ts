@@ -4,10 +4,16 @@ import type {
   OrderBookApiResponse, // CORRECTED: using the new API response type
   OrderBook, 
   Order,
+  OrderBookLevel,
+  AggregatedOrderBook,
   MarketApiResponse,
   Market,
   TradeApiResponse,
-  OrderSummary // CORRECTED: added the OrderSummary type
+  OrderSummary, // CORRECTED: added the OrderSummary type
+  OpenOrderApiResponse,
+  OpenOrder,
+  OpenOrderStatus,
+  UserOrder,
 } from '@/types';
 
 /**
@@ -17,22 +23,14 @@ export function transformOrderBookResponse(apiResponse: OrderBookApiResponse): O
   const now = Date.now();
   
   // CORRECTED: Handle OrderSummary objects instead of tuples
-  const transformOrders = (orders: OrderSummary[]): Order[] => {
-    let cumulativeTotal = new Decimal(0);
-    
-    return orders.map((orderSummary) => {
-      // CORRECTED: Access .price and .size properties instead of array destructuring
-      const orderSize = new Decimal(orderSummary.size);
-      cumulativeTotal = cumulativeTotal.plus(orderSize);
-      
-      return {
+  const transformOrders = (orders: OrderSummary[]): Order[] =>
+    accumulateTotals(
+      orders.map((orderSummary) => ({
         price: new Decimal(orderSummary.price),
-        size: orderSize,
-        total: cumulativeTotal,
-        timestamp: now,
-      };
-    });
-  };
+        size: new Decimal(orderSummary.size),
+      })),
+      now
+    );
 
   // CORRECTED: Sort by price property instead of array index
   const sortedBids = [...apiResponse.bids].sort((a, b) => 
@@ -50,12 +48,135 @@ export function transformOrderBookResponse(apiResponse: OrderBookApiResponse): O
     lastUpdateId: parseInt(apiResponse.hash.slice(2, 10), 16) || 0,
     // CORRECTED: Parse timestamp string to number
     timestamp: parseInt(apiResponse.timestamp) || now,
+    hash: apiResponse.hash,
+    assetId: apiResponse.asset_id,
+    market: apiResponse.market,
     lastPrice: undefined, // Not provided in order book response
     priceChange24h: undefined, // Not provided in basic order book response
     volume24h: undefined, // Not provided in basic order book response
+    summary: apiResponse,
+  };
+}
+
+/**
+ * Build orders with cumulative totals from price levels that are already
+ * sorted best-first
+ */
+export function accumulateTotals(
+  levels: Array<{ price: Decimal; size: Decimal }>,
+  timestamp: number
+): Order[] {
+  let cumulativeTotal = new Decimal(0);
+
+  return levels.map(({ price, size }) => {
+    cumulativeTotal = cumulativeTotal.plus(size);
+
+    return {
+      price,
+      size,
+      total: cumulativeTotal,
+      timestamp,
+    };
+  });
+}
+
+/**
+ * Price bucket of `precision` decimals a price falls into. Bids round down and
+ * asks round up so an aggregated level never shows a better price than the
+ * orders it contains.
+ */
+export function bucketPrice(price: Decimal, precision: number, side: 'bid' | 'ask'): Decimal {
+  return price.toDecimalPlaces(precision, side === 'bid' ? Decimal.ROUND_DOWN : Decimal.ROUND_UP);
+}
+
+/**
+ * Group levels into price buckets of `precision` decimals
+ */
+export function aggregateLevels(
+  orders: Order[],
+  precision: number,
+  side: 'bid' | 'ask'
+): OrderBookLevel[] {
+  const levels: OrderBookLevel[] = [];
+  let cumulativeTotal = new Decimal(0);
+
+  // Orders are sorted best-first, so equal buckets are always adjacent
+  orders.forEach((order) => {
+    const bucket = bucketPrice(order.price, precision, side);
+    const last = levels[levels.length - 1];
+    cumulativeTotal = cumulativeTotal.plus(order.size);
+
+    if (last && last.price.eq(bucket)) {
+      const size = last.size.plus(order.size);
+      const weighted = (last.averagePrice ?? last.price).times(last.size).plus(order.price.times(order.size));
+      last.averagePrice = weighted.dividedBy(size);
+      last.size = size;
+      last.total = cumulativeTotal;
+      last.count++;
+    } else {
+      levels.push({
+        price: bucket,
+        size: order.size,
+        total: cumulativeTotal,
+        count: 1,
+        averagePrice: order.price,
+      });
+    }
+  });
+
+  return levels;
+}
+
+/**
+ * Aggregate both sides of an order book to a display precision
+ */
+export function aggregateOrderBook(orderBook: OrderBook, precision: number): AggregatedOrderBook {
+  return {
+    bids: aggregateLevels(orderBook.bids, precision, 'bid'),
+    asks: aggregateLevels(orderBook.asks, precision, 'ask'),
+    lastUpdateId: orderBook.lastUpdateId,
+    timestamp: orderBook.timestamp,
+    lastPrice: orderBook.lastPrice,
+    precision,
+    originalOrderCount: {
+      bids: orderBook.bids.length,
+      asks: orderBook.asks.length,
+    },
   };
 }
 
+/**
+ * Sum resting size of orders on one side per price bucket, keyed by the
+ * bucket price as aggregateLevels reports it
+ */
+export function restingSizeByLevel(
+  orders: UserOrder[],
+  precision: number,
+  side: 'bid' | 'ask'
+): Map<string, Decimal> {
+  const sizes = new Map<string, Decimal>();
+  orders
+    .filter(order => (order.side === 'buy') === (side === 'bid'))
+    .forEach((order) => {
+      const key = bucketPrice(order.price, precision, side).toString();
+      sizes.set(key, (sizes.get(key) ?? new Decimal(0)).plus(order.remainingSize));
+    });
+  return sizes;
+}
+
+/**
+ * Precision options for a market's tick size, from one decimal up to the
+ * decimals of the tick size itself; finer buckets would only repeat prices
+ */
+export function precisionOptionsForTickSize(tickSize: Decimal): number[] {
+  const tickDecimals = tickSize.decimalPlaces();
+  const options: number[] = [];
+  for (let decimals = Math.min(1, tickDecimals); decimals <= tickDecimals; decimals++) {
+    options.push(decimals);
+  }
+  return options;
+}
+
 /**
  * Transform raw API market response to typed Market - CORRECTED
  */
@@ -92,6 +213,7 @@ export function transformMarketResponse(apiResponse: MarketApiResponse): Market
       marketSlug: apiResponse.market_slug,
       secondsDelay: apiResponse.seconds_delay,
       fpmm: apiResponse.fpmm,
+      negRisk: apiResponse.neg_risk ?? false,
       icon: apiResponse.icon,
       // Token information
       tokens: apiResponse.tokens,
@@ -100,6 +222,50 @@ export function transformMarketResponse(apiResponse: MarketApiResponse): Market
   };
 }
 
+const OPEN_ORDER_STATUSES: Record<string, OpenOrderStatus> = {
+  LIVE: 'live',
+  DELAYED: 'delayed',
+  UNMATCHED: 'unmatched',
+  MATCHED: 'matched',
+  CANCELED: 'cancelled',
+  CANCELLED: 'cancelled',
+  CANCELED_MARKET_RESOLVED: 'cancelled',
+};
+
+/**
+ * Transform an order of the authenticated account to an OpenOrder
+ */
+export function transformOpenOrderResponse(apiResponse: OpenOrderApiResponse): OpenOrder {
+  const originalSize = new Decimal(apiResponse.original_size);
+  const sizeMatched = new Decimal(apiResponse.size_matched);
+  const status = OPEN_ORDER_STATUSES[apiResponse.status.replace(/^ORDER_STATUS_/, '').toUpperCase()] ?? 'unknown';
+  const expiration = parseInt(apiResponse.expiration) || 0;
+  const createdAt = apiResponse.created_at * 1000;
+
+  return {
+    id: apiResponse.id,
+    market: apiResponse.market,
+    assetId: apiResponse.asset_id,
+    side: apiResponse.side === 'BUY' ? 'buy' : 'sell',
+    price: new Decimal(apiResponse.price),
+    originalSize,
+    sizeMatched,
+    // Nothing rests once the order is done, whatever is left unmatched
+    remainingSize: status === 'cancelled' || status === 'matched'
+      ? new Decimal(0)
+      : Decimal.max(originalSize.minus(sizeMatched), 0),
+    outcome: apiResponse.outcome,
+    timestamp: createdAt,
+    status,
+    owner: apiResponse.owner,
+    makerAddress: apiResponse.maker_address,
+    orderType: apiResponse.order_type,
+    expiration: expiration > 0 ? expiration * 1000 : null,
+    associateTrades: apiResponse.associate_trades ?? [],
+    createdAt,
+  };
+}
+
 /**
  * Transform trade API response - CORRECTED
  */
@@ -0,0 +1,355 @@
+// File: src/lib/userSocket.ts
+import Decimal from 'decimal.js';
+
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import { WS_ENDPOINTS, buildWsUrl } from './endpoints';
+import { apiEnvironment } from './environment';
+import { DEFAULT_BACKOFF_POLICY, computeBackoffDelay } from './websocket';
+import type { BackoffPolicy, OrderBookSocketOptions } from './websocket';
+import type { ConnectionStatus } from '@/types/orderbook';
+import type {
+  ApiCredentials,
+  UserOrder,
+  UserOrderEvent,
+  UserOrderEventType,
+  UserTrade,
+  UserTradeStatus,
+} from '@/types/user';
+import type { MakerOrderInfo, WebSocketSubscription, WSOrderMessage, WSTradeMessage } from '@/types';
+
+const WS_OPEN = 1;
+
+/**
+ * Callbacks invoked by UserChannelSocket
+ */
+export interface UserChannelHandlers {
+  /** Called when one of our orders is placed, (partially) matched or cancelled */
+  onOrder?: (event: UserOrderEvent) => void;
+  /** Called for every fill of our orders and every settlement status change */
+  onTrade?: (trade: UserTrade) => void;
+  /** Called whenever the connection status changes */
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+/**
+ * Transport options shared with the market channel socket
+ */
+export type UserChannelSocketOptions = Pick<
+  OrderBookSocketOptions,
+  'url' | 'createWebSocket' | 'backoff' | 'heartbeatIntervalMs' | 'clock'
+>;
+
+// The user channel reports times in seconds, the market channel in milliseconds
+function toMillis(timestamp: string, fallback: number): number {
+  const value = parseInt(timestamp);
+  if (!value) return fallback;
+  return value < 1e12 ? value * 1000 : value;
+}
+
+/**
+ * Our part of a trade in which our orders were makers. A maker order on the
+ * taker's asset takes the other side; one on the complementary asset (a mint
+ * or merge) takes the same side. Several of our orders on that asset are
+ * summed, at their size-weighted price.
+ */
+function makerFill(message: WSTradeMessage, makers: MakerOrderInfo[]): Pick<UserTrade, 'assetId' | 'side' | 'price' | 'size' | 'outcome'> {
+  const [first] = makers;
+  const orders = makers.filter(maker => maker.asset_id === first.asset_id);
+  const takerBuys = message.side.toLowerCase() === 'buy';
+  const buys = first.asset_id === message.asset_id ? !takerBuys : takerBuys;
+
+  const size = orders.reduce((total, maker) => total.plus(maker.matched_amount), new Decimal(0));
+  const notional = orders.reduce((total, maker) => total.plus(new Decimal(maker.price).times(maker.matched_amount)), new Decimal(0));
+
+  return {
+    assetId: first.asset_id,
+    side: buys ? 'buy' : 'sell',
+    price: size.isZero() ? new Decimal(first.price) : notional.div(size),
+    size,
+    outcome: first.outcome,
+  };
+}
+
+const ORDER_EVENT_TYPES: Record<WSOrderMessage['type'], UserOrderEventType> = {
+  PLACEMENT: 'placement',
+  UPDATE: 'update',
+  CANCELLATION: 'cancellation',
+};
+
+/**
+ * Authenticated WebSocket on the user channel. Streams the order and trade
+ * events of the account owning the L2 credentials for a set of markets, and
+ * tracks which of its orders are still resting.
+ */
+export class UserChannelSocket {
+  private ws: WebSocket | null = null;
+  private credentials: ApiCredentials;
+  private markets: Set<string>;
+  private handlers: UserChannelHandlers;
+  private url?: string;
+  private createWebSocket: (url: string) => WebSocket;
+  private backoff: BackoffPolicy;
+  private heartbeatIntervalMs: number;
+  private clock: Clock;
+  private reconnectAttempts = 0;
+  private reconnectTimer: TimerHandle | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+  private isIntentionallyClosed = false;
+  private currentStatus: ConnectionStatus = 'idle';
+  private openOrders = new Map<string, UserOrder>();
+  // Orders with a live event since connecting; those events beat any REST snapshot
+  private streamedOrderIds = new Set<string>();
+
+  constructor(
+    credentials: ApiCredentials,
+    markets: string[],
+    handlers: UserChannelHandlers,
+    options: UserChannelSocketOptions = {}
+  ) {
+    this.credentials = credentials;
+    this.markets = new Set(markets);
+    this.handlers = handlers;
+    this.url = options.url;
+    this.createWebSocket = options.createWebSocket ?? ((url: string) => new WebSocket(url));
+    this.backoff = { ...DEFAULT_BACKOFF_POLICY, ...options.backoff };
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+    this.clock = options.clock ?? systemClock;
+    this.connect();
+  }
+
+  private connect(): void {
+    try {
+      this.updateStatus('connecting');
+
+      this.ws = this.createWebSocket(this.url ?? buildWsUrl(WS_ENDPOINTS.USER_CHANNEL, apiEnvironment.get().wsUrl));
+      this.ws.onopen = this.handleOpen.bind(this);
+      this.ws.onmessage = this.handleMessage.bind(this);
+      this.ws.onclose = this.handleClose.bind(this);
+      this.ws.onerror = this.handleError.bind(this);
+    } catch (error) {
+      console.error('User channel connection error:', error);
+      this.updateStatus('error');
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleOpen(): void {
+    this.send({
+      type: 'user',
+      auth: {
+        apiKey: this.credentials.apiKey,
+        secret: this.credentials.secret,
+        passphrase: this.credentials.passphrase,
+      },
+      markets: [...this.markets],
+    });
+
+    this.updateStatus('connected');
+    this.reconnectAttempts = 0;
+    this.startHeartbeat();
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    try {
+      const payload = JSON.parse(event.data);
+      const messages = Array.isArray(payload) ? payload : [payload];
+      messages.forEach(message => this.processMessage(message));
+    } catch (error) {
+      console.error('Error processing user channel message:', error);
+    }
+  }
+
+  private processMessage(message: { event_type?: string; market?: string }): void {
+    if (message.market && !this.markets.has(message.market)) return;
+
+    if (message.event_type === 'order') {
+      this.handleOrder(message as WSOrderMessage);
+    } else if (message.event_type === 'trade') {
+      this.handleTrade(message as WSTradeMessage);
+    }
+  }
+
+  private handleOrder(message: WSOrderMessage): void {
+    const originalSize = new Decimal(message.original_size);
+    const sizeMatched = new Decimal(message.size_matched);
+    const order: UserOrder = {
+      id: message.id,
+      market: message.market,
+      assetId: message.asset_id,
+      side: message.side.toLowerCase() === 'buy' ? 'buy' : 'sell',
+      price: new Decimal(message.price),
+      originalSize,
+      sizeMatched,
+      remainingSize: Decimal.max(originalSize.minus(sizeMatched), 0),
+      outcome: message.outcome,
+      timestamp: toMillis(message.timestamp, this.clock.now()),
+    };
+    const type = ORDER_EVENT_TYPES[message.type] ?? 'update';
+    this.streamedOrderIds.add(order.id);
+
+    if (type === 'cancellation' || order.remainingSize.isZero()) {
+      this.openOrders.delete(order.id);
+    } else {
+      this.openOrders.set(order.id, order);
+    }
+
+    this.handlers.onOrder?.({ type, order });
+  }
+
+  private handleTrade(message: WSTradeMessage): void {
+    const ourMakers = (message.maker_orders || []).filter(makerOrder => makerOrder.owner === this.credentials.apiKey);
+
+    // The top-level fields describe the taker order
+    const fill = ourMakers.length > 0
+      ? makerFill(message, ourMakers)
+      : {
+        assetId: message.asset_id,
+        side: message.side.toLowerCase() === 'buy' ? 'buy' as const : 'sell' as const,
+        price: new Decimal(message.price),
+        size: new Decimal(message.size),
+        outcome: message.outcome,
+      };
+
+    this.handlers.onTrade?.({
+      id: message.id,
+      market: message.market,
+      ...fill,
+      status: message.status as UserTradeStatus,
+      takerOrderId: message.taker_order_id,
+      makerOrderIds: ourMakers.map(makerOrder => makerOrder.order_id),
+      timestamp: toMillis(message.matchtime || message.timestamp, this.clock.now()),
+    });
+  }
+
+  private send(message: WebSocketSubscription): void {
+    if (this.ws && this.ws.readyState === WS_OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private handleClose(event: CloseEvent): void {
+    console.log(`User channel disconnected: ${event.code} ${event.reason}`);
+    this.stopHeartbeat();
+    this.updateStatus('disconnected');
+
+    if (!this.isIntentionallyClosed) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleError(error: Event): void {
+    console.error('User channel error:', error);
+    this.updateStatus('error');
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.backoff.maxAttempts) {
+      console.error('Max user channel reconnection attempts reached');
+      this.updateStatus('error');
+      return;
+    }
+
+    const delay = computeBackoffDelay(this.backoff, this.reconnectAttempts);
+    this.updateStatus('reconnecting');
+
+    this.reconnectTimer = this.clock.setTimeout(() => {
+      this.reconnectAttempts++;
+      this.connect();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = this.clock.setInterval(() => {
+      if (this.ws && this.ws.readyState === WS_OPEN) {
+        this.ws.send(JSON.stringify({ type: 'ping' }));
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      this.clock.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private updateStatus(status: ConnectionStatus): void {
+    this.currentStatus = status;
+    this.handlers.onStatusChange?.(status);
+  }
+
+  /**
+   * Add markets (condition IDs) to the subscription
+   */
+  public subscribe(markets: string[]): void {
+    const added = markets.filter(market => !this.markets.has(market));
+    if (added.length === 0) return;
+
+    added.forEach(market => this.markets.add(market));
+    this.send({ markets: added, operation: 'subscribe' });
+  }
+
+  /**
+   * Remove markets from the subscription and forget their open orders
+   */
+  public unsubscribe(markets: string[]): void {
+    const removed = markets.filter(market => this.markets.has(market));
+    if (removed.length === 0) return;
+
+    removed.forEach(market => this.markets.delete(market));
+    this.openOrders.forEach((order, id) => {
+      if (!this.markets.has(order.market)) this.openOrders.delete(id);
+    });
+    this.send({ markets: removed, operation: 'unsubscribe' });
+  }
+
+  /**
+   * Add resting orders known from a REST query, so orders placed before the
+   * socket connected are tracked too. Orders the channel has already
+   * reported on keep their streamed state.
+   */
+  public seedOpenOrders(orders: UserOrder[]): void {
+    orders.forEach((order) => {
+      if (!this.markets.has(order.market) || this.streamedOrderIds.has(order.id)) return;
+      if (order.remainingSize.isZero()) return;
+      this.openOrders.set(order.id, order);
+    });
+  }
+
+  /**
+   * Our resting orders, optionally for one asset
+   */
+  public getOpenOrders(assetId?: string): UserOrder[] {
+    const orders = [...this.openOrders.values()];
+    return assetId ? orders.filter(order => order.assetId === assetId) : orders;
+  }
+
+  /**
+   * Get current connection status
+   */
+  public getStatus(): ConnectionStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Close the connection
+   */
+  public close(): void {
+    this.isIntentionallyClosed = true;
+
+    if (this.reconnectTimer) {
+      this.clock.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      this.ws.close(1000, 'Client disconnecting');
+      this.ws = null;
+    }
+
+    this.updateStatus('disconnected');
+  }
+}
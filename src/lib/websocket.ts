@@ -1,42 +1,286 @@
 // File: src/lib/websocket.ts
-import { transformOrderBookResponse } from './transforms';
-import type { OrderBook, ConnectionStatus } from '@/types/orderbook';
-import type { OrderBookApiResponse, WSBookMessage } from '@/types';
+import Decimal from 'decimal.js';
+
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+import { UpdateCoalescer } from './coalescer';
+import type { CoalesceMode } from './coalescer';
+import { TypedEventEmitter } from './emitter';
+import type { EventListener } from './emitter';
+import { WS_ENDPOINTS, buildWsUrl } from './endpoints';
+import { apiEnvironment } from './environment';
+import { FeedHealthMonitor } from './feedHealth';
+import { LocalOrderBook, mergeUpdates, toSnapshotUpdate } from './localBook';
+import type { LocalBookChange } from './localBook';
+import { fetchOrderBook } from './polymarket';
+import { OrderBookPoller } from './polling';
+import { MessageQuarantine, formatIssues } from './quarantine';
+import type { QuarantinedMessage } from './quarantine';
+import type { FrameRecorder } from './recorder';
+import { TradeTape, toTradePrint } from './tradeTape';
+import type {
+  OrderBook,
+  OrderBookUpdate,
+  ConnectionStatus,
+  TickSizeChange,
+  BookSyncStats,
+  ResyncReason,
+  TradeTapeUpdate,
+  FeedHealth,
+  SocketErrorEvent,
+} from '@/types/orderbook';
+import { MarketChannelMessageSchema } from '@/types';
+import type {
+  WebSocketSubscription,
+  WSBookMessage,
+  WSPriceChangeMessage,
+  WSTickSizeChangeMessage,
+  WSLastTradePriceMessage,
+  WSTradeMessage,
+} from '@/types';
+
+/**
+ * Events emitted by OrderBookSocket, with their payloads
+ */
+export interface OrderBookSocketEvents {
+  /** An asset's book changed, by snapshot or delta; carries the full book */
+  book: { book: OrderBook; update: OrderBookUpdate };
+  /** Levels changed incrementally; emitted after `book` for delta updates only */
+  delta: OrderBookUpdate;
+  /** An asset traded; carries its updated trade tape */
+  trade: TradeTapeUpdate;
+  /** The minimum tick size of an asset changed */
+  tickSize: TickSizeChange;
+  /** The connection status changed */
+  status: ConnectionStatus;
+  /** Something went wrong; the socket keeps running */
+  error: SocketErrorEvent;
+  /** A resync of an asset's book started, finished or failed */
+  resync: BookSyncStats;
+  /** Feed metrics of an asset, periodically and when it turns stale or fresh */
+  health: FeedHealth;
+  /** An inbound message failed validation */
+  quarantine: QuarantinedMessage;
+}
+
+/**
+ * Callbacks invoked by OrderBookSocket; a shorthand for listening to its
+ * events with `on()`
+ */
+export interface OrderBookSocketHandlers {
+  /** Called with the full book and the applied change whenever an asset's book changes */
+  onUpdate?: (orderBook: OrderBook, update: OrderBookUpdate) => void;
+  /** Called whenever the connection status changes */
+  onStatusChange?: (status: ConnectionStatus) => void;
+  /** Called when the minimum tick size of an asset changes */
+  onTickSizeChange?: (change: TickSizeChange) => void;
+  /** Called when the integrity state of an asset's book changes */
+  onSyncChange?: (stats: BookSyncStats) => void;
+  /** Called when an asset trades, with its updated trade tape */
+  onTrade?: (update: TradeTapeUpdate) => void;
+  /** Called periodically, and when a feed turns stale or fresh, with its metrics */
+  onHealthChange?: (health: FeedHealth) => void;
+  /** Called when an inbound message fails validation and is quarantined */
+  onQuarantine?: (message: QuarantinedMessage) => void;
+}
+
+// WebSocket readyState values; the global constructor may be replaced by a factory
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+
+// Events applied to local state, and therefore validated first
+const MARKET_EVENT_TYPES = new Set(['book', 'price_change', 'tick_size_change', 'last_trade_price', 'trade']);
+
+/**
+ * Exponential backoff between reconnection attempts
+ */
+export interface BackoffPolicy {
+  /** Delay before the first reconnection attempt */
+  initialDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+  /** Factor applied to the delay after every failed attempt */
+  multiplier: number;
+  /** Attempts before giving up (and falling back to polling, if enabled) */
+  maxAttempts: number;
+  /** Randomize each delay by up to this fraction (0-1) to spread reconnect storms */
+  jitter?: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  maxAttempts: 5,
+  jitter: 0,
+};
+
+/**
+ * Delay before reconnection attempt number `attempt` (zero-based)
+ */
+export function computeBackoffDelay(
+  policy: BackoffPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt),
+    policy.maxDelayMs
+  );
+  const jitter = policy.jitter ?? 0;
+  if (jitter <= 0) return delay;
+
+  return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+}
+
+/**
+ * Tuning options for OrderBookSocket
+ */
+export interface OrderBookSocketOptions {
+  /** WebSocket URL of the market channel (default: that of the current API environment) */
+  url?: string;
+  /** Create the underlying WebSocket; lets callers swap in a fake transport */
+  createWebSocket?: (url: string) => WebSocket;
+  /** Reconnection backoff; missing fields fall back to the defaults */
+  backoff?: Partial<BackoffPolicy>;
+  /** Interval between keep-alive pings on an open connection */
+  heartbeatIntervalMs?: number;
+  /** Time source and timers */
+  clock?: Clock;
+  /** Fetch a REST snapshot used to resync a diverged book */
+  fetchSnapshot?: (assetId: string) => Promise<OrderBook>;
+  /** Check local books against server hashes (default: true) */
+  verifyHashes?: boolean;
+  /** Minimum time between two resyncs of the same asset in milliseconds */
+  minResyncIntervalMs?: number;
+  /** Poll REST snapshots once reconnection attempts are exhausted (default: true) */
+  pollingFallback?: boolean;
+  /** Interval between REST polls while in fallback mode */
+  pollIntervalMs?: number;
+  /** Interval between background attempts to reopen the WebSocket while in fallback mode */
+  probeIntervalMs?: number;
+  /** Batch snapshot fetch (`/books`) used when polling several assets */
+  fetchSnapshots?: (assetIds: string[]) => Promise<OrderBook[]>;
+  /** Number of recent trades kept per asset */
+  tradeBufferSize?: number;
+  /** Capture every raw inbound frame, e.g. to an NDJSON recording */
+  recorder?: FrameRecorder;
+  /** Recover an asset's feed after this long without a message, even while connected */
+  staleAfterMs?: number;
+  /** Interval between watchdog checks, which also publish feed health */
+  healthCheckIntervalMs?: number;
+  /**
+   * Merge book changes and call `onUpdate` at most once per animation frame
+   * or interval, instead of once per message (default: false)
+   */
+  coalesce?: CoalesceMode | false;
+  /** Check market events against their schemas before applying them (default: true) */
+  validateMessages?: boolean;
+  /** Number of rejected messages kept for inspection */
+  quarantineSize?: number;
+}
+
+type ResolvedSocketOptions = Required<Omit<OrderBookSocketOptions, 'url' | 'fetchSnapshots' | 'backoff' | 'recorder'>> &
+  Pick<OrderBookSocketOptions, 'url' | 'fetchSnapshots' | 'recorder'> & { backoff: BackoffPolicy };
+
+const DEFAULT_SOCKET_OPTIONS: ResolvedSocketOptions = {
+  createWebSocket: (url: string) => new WebSocket(url),
+  backoff: DEFAULT_BACKOFF_POLICY,
+  heartbeatIntervalMs: 30000,
+  clock: systemClock,
+  fetchSnapshot: (assetId: string) => fetchOrderBook(assetId),
+  verifyHashes: true,
+  minResyncIntervalMs: 5000,
+  pollingFallback: true,
+  pollIntervalMs: 2000, // FR-RT-002: polling fallback < 5 s
+  probeIntervalMs: 15000,
+  tradeBufferSize: 50,
+  staleAfterMs: 60000,
+  healthCheckIntervalMs: 1000,
+  coalesce: false,
+  validateMessages: true,
+  quarantineSize: 100,
+};
 
 /**
  * WebSocket client for real-time order book updates
  */
 export class OrderBookSocket {
   private ws: WebSocket | null = null;
-  private marketId: string;
-  private onUpdate: (orderBook: OrderBook) => void;
-  private onStatusChange?: (status: ConnectionStatus) => void;
+  private assetIds: Set<string>;
+  private options: ResolvedSocketOptions;
+  private clock: Clock;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: TimerHandle | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+  private probeTimer: TimerHandle | null = null;
+  private watchdogTimer: TimerHandle | null = null;
+  private health: FeedHealthMonitor;
+  private hasConnected = false;
+  private poller: OrderBookPoller | null = null;
   private isIntentionallyClosed = false;
   private currentStatus: ConnectionStatus = 'idle';
+  private books = new Map<string, LocalOrderBook>();
+  private tapes = new Map<string, TradeTape>();
+  private syncStats = new Map<string, BookSyncStats>();
+  // Deltas received while a REST resync is in flight, keyed by asset
+  private pendingResyncs = new Map<string, WSPriceChangeMessage[]>();
+  private lastResyncAttempt = new Map<string, number>();
+  private coalescer: UpdateCoalescer<OrderBookUpdate> | null = null;
+  private quarantine: MessageQuarantine;
+  private events = new TypedEventEmitter<OrderBookSocketEvents>((error, event) => {
+    console.error(`Error in OrderBookSocket ${event} listener:`, error);
+    if (event !== 'error') {
+      this.emitError('listener', `${event} listener failed`, error);
+    }
+  });
 
   constructor(
-    marketId: string, 
-    onUpdate: (orderBook: OrderBook) => void,
-    onStatusChange?: (status: ConnectionStatus) => void
+    assetIds: string | string[],
+    handlers: OrderBookSocketHandlers = {},
+    options: OrderBookSocketOptions = {}
   ) {
-    this.marketId = marketId;
-    this.onUpdate = onUpdate;
-    this.onStatusChange = onStatusChange;
+    this.assetIds = new Set(Array.isArray(assetIds) ? assetIds : [assetIds]);
+    this.attachHandlers(handlers);
+    this.options = {
+      ...DEFAULT_SOCKET_OPTIONS,
+      ...options,
+      backoff: { ...DEFAULT_BACKOFF_POLICY, ...options.backoff },
+    };
+    this.clock = this.options.clock;
+    this.health = new FeedHealthMonitor(this.clock);
+    this.assetIds.forEach(assetId => this.health.addAsset(assetId));
+    this.quarantine = new MessageQuarantine(this.options.quarantineSize);
+    if (this.options.coalesce !== false) {
+      this.coalescer = new UpdateCoalescer(
+        (assetId, updates) => this.publishCoalesced(assetId, updates),
+        { mode: this.options.coalesce, clock: this.clock }
+      );
+    }
     this.connect();
   }
 
+  private attachHandlers(handlers: OrderBookSocketHandlers): void {
+    const { onUpdate, onStatusChange, onTickSizeChange, onSyncChange, onTrade, onHealthChange, onQuarantine } = handlers;
+    if (onUpdate) this.on('book', ({ book, update }) => onUpdate(book, update));
+    if (onStatusChange) this.on('status', onStatusChange);
+    if (onTickSizeChange) this.on('tickSize', onTickSizeChange);
+    if (onSyncChange) this.on('resync', onSyncChange);
+    if (onTrade) this.on('trade', onTrade);
+    if (onHealthChange) this.on('health', onHealthChange);
+    if (onQuarantine) this.on('quarantine', onQuarantine);
+  }
+
   private connect(): void {
     try {
-      this.updateStatus('connecting');
-      
-      // Use Polymarket WebSocket endpoint
-      const wsUrl = `wss://ws-subscriptions-clob.polymarket.com/ws/`;
-      this.ws = new WebSocket(wsUrl);
+      // Background probes while polling keep reporting 'fallback'
+      if (!this.isInFallback()) {
+        this.updateStatus('connecting');
+      }
+
+      this.ws = this.options.createWebSocket(
+        this.options.url ?? buildWsUrl(WS_ENDPOINTS.MARKET_CHANNEL, apiEnvironment.get().wsUrl)
+      );
       
       this.ws.onopen = this.handleOpen.bind(this);
       this.ws.onmessage = this.handleMessage.bind(this);
@@ -45,61 +289,289 @@ export class OrderBookSocket {
       
     } catch (error) {
       console.error('WebSocket connection error:', error);
+      this.emitError('connection', 'Could not open the WebSocket', error);
+      if (this.isInFallback()) return;
+
       this.updateStatus('error');
       this.scheduleReconnect();
     }
   }
 
   private handleOpen(): void {
-    console.log(`WebSocket connected for market ${this.marketId}`);
+    console.log(`WebSocket connected for ${this.assetIds.size} asset(s)`);
+
+    // The socket recovered; the server resends snapshots on subscribe
+    this.stopFallback();
     
     // Send subscription message according to Polymarket protocol
-    const subscriptionMessage = {
-      type: 'market',
-      assets_ids: [this.marketId], // Subscribe to this specific token ID
-    };
+    if (this.assetIds.size > 0) {
+      this.send({
+        type: 'market',
+        assets_ids: [...this.assetIds],
+      });
+    }
     
-    this.ws!.send(JSON.stringify(subscriptionMessage));
+    this.health.recordConnected(this.hasConnected);
+    this.hasConnected = true;
+
     this.updateStatus('connected');
     this.reconnectAttempts = 0;
     this.startHeartbeat();
+    this.startWatchdog();
   }
 
   private handleMessage(event: MessageEvent): void {
+    this.options.recorder?.record({ receivedAt: this.clock.now(), data: event.data });
+    this.health.recordFrame();
+
+    let payload: unknown;
     try {
-      const message = JSON.parse(event.data);
-      
-      // Handle different message types according to Polymarket protocol
-      if (message.event_type === 'book') {
-        const bookMessage = message as WSBookMessage;
-        
-        // Transform WebSocket book message to OrderBookApiResponse format
-        const orderBookData: OrderBookApiResponse = {
-          market: bookMessage.market,
-          asset_id: bookMessage.asset_id,
-          hash: bookMessage.hash,
-          timestamp: bookMessage.timestamp,
-          bids: bookMessage.buys || [],
-          asks: bookMessage.sells || [],
-        };
-        
-        const orderBook = transformOrderBookResponse(orderBookData);
-        this.onUpdate(orderBook);
-      } else if (message.event_type === 'price_change') {
-        // Handle individual price level changes
-        console.log('Price change received:', message);
-        // You might want to update individual levels rather than full book
-      }
-      
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      this.quarantineMessage(event.data, [`Invalid JSON: ${(error as Error).message}`]);
+      return;
+    }
+
+    try {
+      // The initial snapshot for several assets arrives as a single array
+      const messages = Array.isArray(payload) ? payload : [payload];
+      messages.forEach(message => this.processMessage(message));
     } catch (error) {
       console.error('Error processing WebSocket message:', error);
+      this.emitError('message', 'Could not process a WebSocket message', error);
+    }
+  }
+
+  private processMessage(message: { event_type?: string; asset_id?: string; timestamp?: string }): void {
+    if (!message || typeof message !== 'object') {
+      this.quarantineMessage(message, ['Expected an object']);
+      return;
+    }
+
+    // Drop late messages for assets that were unsubscribed
+    if (message.asset_id && !this.assetIds.has(message.asset_id)) {
+      return;
+    }
+
+    if (this.options.validateMessages && MARKET_EVENT_TYPES.has(message.event_type ?? '')) {
+      const result = MarketChannelMessageSchema.safeParse(message);
+      if (!result.success) {
+        this.quarantineMessage(message, formatIssues(result.error.issues));
+        return;
+      }
+    }
+
+    if (message.asset_id) {
+      this.recordMessage(message.asset_id, parseInt(message.timestamp ?? ''));
+    }
+
+    // Handle different message types according to Polymarket protocol
+    if (message.event_type === 'book') {
+      const bookMessage = message as WSBookMessage;
+      const localBook = this.getLocalBook(bookMessage.asset_id);
+
+      // A fresh snapshot supersedes any REST resync still in flight
+      this.pendingResyncs.delete(bookMessage.asset_id);
+
+      this.publish(localBook.applySnapshot(bookMessage));
+      this.checkHash(localBook);
+    } else if (message.event_type === 'price_change') {
+      const changeMessage = message as WSPriceChangeMessage;
+      const assetId = changeMessage.asset_id;
+      const localBook = this.books.get(assetId);
+
+      const pending = this.pendingResyncs.get(assetId);
+      if (pending) {
+        pending.push(changeMessage);
+        return;
+      }
+
+      // A delta without a seeded book, or older than the book itself, means
+      // we missed messages in between
+      if (
+        !localBook ||
+        !localBook.isInitialized() ||
+        (parseInt(changeMessage.timestamp) || 0) < localBook.getTimestamp()
+      ) {
+        this.getStats(assetId).gaps++;
+        this.resync(assetId, 'sequence_gap', [changeMessage]);
+        return;
+      }
+
+      if (this.coalescer) {
+        // Building and sorting the book, and checking its hash, wait for the next publish
+        this.coalescer.add(assetId, localBook.applyDelta(changeMessage));
+      } else {
+        this.publish(localBook.applyPriceChange(changeMessage));
+        this.checkHash(localBook);
+      }
+    } else if (message.event_type === 'tick_size_change') {
+      const tickMessage = message as WSTickSizeChangeMessage;
+      this.events.emit('tickSize', {
+        assetId: tickMessage.asset_id,
+        market: tickMessage.market,
+        oldTickSize: new Decimal(tickMessage.old_tick_size),
+        newTickSize: new Decimal(tickMessage.new_tick_size),
+        timestamp: parseInt(tickMessage.timestamp) || this.clock.now(),
+      });
+    } else if (message.event_type === 'last_trade_price' || message.event_type === 'trade') {
+      const trade = toTradePrint(message as WSLastTradePriceMessage | WSTradeMessage, this.clock.now());
+      const update = this.getTradeTape(trade.assetId).record(trade);
+      if (!update) return;
+
+      this.getLocalBook(trade.assetId).setLastPrice(trade.price);
+      this.events.emit('trade', update);
     }
   }
 
+  private checkHash(localBook: LocalOrderBook): void {
+    if (!this.options.verifyHashes || !localBook.getServerHash()) return;
+
+    const stats = this.getStats(localBook.assetId);
+    stats.hashChecks++;
+
+    if (localBook.verifyHash()) {
+      if (stats.state !== 'synced') {
+        stats.state = 'synced';
+        this.notifySync(stats);
+      }
+      return;
+    }
+
+    stats.hashMismatches++;
+    console.warn(`Book hash mismatch for asset ${localBook.assetId}`);
+    this.resync(localBook.assetId, 'hash_mismatch');
+  }
+
+  /**
+   * Replace the local book of an asset with a REST snapshot. Deltas that
+   * arrive meanwhile are buffered and replayed on top of the snapshot.
+   */
+  private resync(assetId: string, reason: ResyncReason, buffered: WSPriceChangeMessage[] = []): void {
+    if (this.pendingResyncs.has(assetId)) return;
+
+    const stats = this.getStats(assetId);
+    stats.lastResyncReason = reason;
+
+    const now = this.clock.now();
+    const lastAttempt = this.lastResyncAttempt.get(assetId) ?? 0;
+    if (now - lastAttempt < this.options.minResyncIntervalMs) {
+      // Too soon to hit REST again; the next divergence check retries
+      stats.state = 'unsynced';
+      this.notifySync(stats);
+      return;
+    }
+
+    this.lastResyncAttempt.set(assetId, now);
+    this.pendingResyncs.set(assetId, buffered);
+    stats.state = 'resyncing';
+    this.notifySync(stats);
+
+    this.options.fetchSnapshot(assetId)
+      .then((orderBook) => {
+        const pending = this.pendingResyncs.get(assetId);
+        this.pendingResyncs.delete(assetId);
+
+        // Unsubscribed or superseded by a WebSocket snapshot meanwhile
+        if (!pending || !this.assetIds.has(assetId)) return;
+
+        const localBook = this.getLocalBook(assetId);
+        let { book } = localBook.applyOrderBook(orderBook);
+
+        // A snapshot that does not match its own hash cannot anchor later checks
+        let consistent = true;
+        if (this.options.verifyHashes && localBook.getServerHash()) {
+          stats.hashChecks++;
+          consistent = localBook.verifyHash();
+          if (!consistent) {
+            stats.hashMismatches++;
+            console.warn(`REST snapshot hash mismatch for asset ${assetId}`);
+          }
+        }
+
+        pending
+          .filter(delta => (parseInt(delta.timestamp) || 0) >= orderBook.timestamp)
+          .forEach((delta) => {
+            book = localBook.applyPriceChange(delta).book;
+          });
+
+        stats.resyncs++;
+        stats.lastResyncAt = this.clock.now();
+        stats.state = consistent ? 'synced' : 'unsynced';
+        this.notifySync(stats);
+        this.publish({ book, update: toSnapshotUpdate(assetId, book) });
+      })
+      .catch((error) => {
+        console.error(`Order book resync failed for asset ${assetId}:`, error);
+        this.emitError('resync', `Order book resync failed for asset ${assetId}`, error, assetId);
+        if (!this.pendingResyncs.has(assetId)) return;
+
+        this.pendingResyncs.delete(assetId);
+        stats.failedResyncs++;
+        stats.state = 'unsynced';
+        this.notifySync(stats);
+      });
+  }
+
+  private getStats(assetId: string): BookSyncStats {
+    let stats = this.syncStats.get(assetId);
+    if (!stats) {
+      stats = {
+        assetId,
+        state: 'synced',
+        hashChecks: 0,
+        hashMismatches: 0,
+        gaps: 0,
+        resyncs: 0,
+        failedResyncs: 0,
+      };
+      this.syncStats.set(assetId, stats);
+    }
+    return stats;
+  }
+
+  private notifySync(stats: BookSyncStats): void {
+    this.events.emit('resync', { ...stats });
+  }
+
+  private send(message: WebSocketSubscription): void {
+    if (this.ws && this.ws.readyState === WS_OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private getLocalBook(assetId: string): LocalOrderBook {
+    let localBook = this.books.get(assetId);
+    if (!localBook) {
+      localBook = new LocalOrderBook(assetId);
+      this.books.set(assetId, localBook);
+    }
+    return localBook;
+  }
+
+  private getTradeTape(assetId: string): TradeTape {
+    let tape = this.tapes.get(assetId);
+    if (!tape) {
+      tape = new TradeTape(assetId, this.options.tradeBufferSize);
+      this.tapes.set(assetId, tape);
+    }
+    return tape;
+  }
+
   private handleClose(event: CloseEvent): void {
     console.log(`WebSocket disconnected: ${event.code} ${event.reason}`);
-    this.updateStatus('disconnected');
     this.stopHeartbeat();
+    this.stopWatchdog();
+
+    // A failed probe; polling carries on until the next one
+    if (this.isInFallback()) {
+      this.ws = null;
+      return;
+    }
+
+    this.health.recordDisconnected();
+
+    this.updateStatus('disconnected');
     
     if (!this.isIntentionallyClosed) {
       this.scheduleReconnect();
@@ -108,48 +580,275 @@ export class OrderBookSocket {
 
   private handleError(error: Event): void {
     console.error('WebSocket error:', error);
+    this.emitError('connection', 'WebSocket error', error);
+    if (this.isInFallback()) return;
+
     this.updateStatus('error');
   }
 
   private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+    if (this.reconnectAttempts >= this.options.backoff.maxAttempts) {
       console.error('Max reconnection attempts reached');
-      this.updateStatus('error');
+      if (this.options.pollingFallback) {
+        this.startFallback();
+      } else {
+        this.updateStatus('error');
+      }
       return;
     }
 
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts);
+    const delay = computeBackoffDelay(this.options.backoff, this.reconnectAttempts);
     console.log(`Scheduling reconnection in ${delay}ms (attempt ${this.reconnectAttempts + 1})`);
     
     this.updateStatus('reconnecting');
     
-    this.reconnectTimer = setTimeout(() => {
+    this.reconnectTimer = this.clock.setTimeout(() => {
       this.reconnectAttempts++;
       this.connect();
     }, delay);
   }
 
+  /**
+   * Serve books from REST polling and keep probing the WebSocket
+   */
+  private startFallback(): void {
+    if (this.isInFallback()) return;
+
+    console.warn('WebSocket unavailable, falling back to REST polling');
+    this.poller = new OrderBookPoller(
+      () => this.getAssetIds(),
+      (assetId, orderBook) => this.applyPolledSnapshot(assetId, orderBook),
+      {
+        intervalMs: this.options.pollIntervalMs,
+        fetchSnapshot: this.options.fetchSnapshot,
+        fetchSnapshots: this.options.fetchSnapshots,
+        clock: this.clock,
+      }
+    );
+    this.updateStatus('fallback');
+    this.poller.start();
+
+    this.probeTimer = this.clock.setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WS_CONNECTING) {
+        this.connect();
+      }
+    }, this.options.probeIntervalMs);
+  }
+
+  private stopFallback(): void {
+    if (this.poller) {
+      this.poller.stop();
+      this.poller = null;
+    }
+    if (this.probeTimer) {
+      this.clock.clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private isInFallback(): boolean {
+    return this.poller !== null;
+  }
+
+  private applyPolledSnapshot(assetId: string, orderBook: OrderBook): void {
+    if (!this.assetIds.has(assetId)) return;
+
+    this.recordMessage(assetId, orderBook.timestamp);
+    this.publish(this.getLocalBook(assetId).applyOrderBook(orderBook));
+  }
+
+  /**
+   * Hand a book change to `onUpdate`, right away or with the next coalesced
+   * publish
+   */
+  private publish(change: LocalBookChange): void {
+    if (this.coalescer) {
+      this.coalescer.add(change.update.marketId, change.update);
+    } else {
+      this.emitChange(change.book, change.update);
+    }
+  }
+
+  private publishCoalesced(assetId: string, updates: OrderBookUpdate[]): void {
+    const localBook = this.books.get(assetId);
+    if (!localBook?.isInitialized() || !this.assetIds.has(assetId)) return;
+
+    // One hash check per batch, against the hash of its last delta; a
+    // resync in flight replaces the book anyway
+    if (updates[updates.length - 1]?.type === 'delta' && !this.pendingResyncs.has(assetId)) {
+      this.checkHash(localBook);
+    }
+
+    const book = localBook.toOrderBook();
+    this.emitChange(book, mergeUpdates(book, updates));
+  }
+
+  private emitChange(book: OrderBook, update: OrderBookUpdate): void {
+    this.events.emit('book', { book, update });
+    if (update.type === 'delta') {
+      this.events.emit('delta', update);
+    }
+  }
+
+  private emitError(source: SocketErrorEvent['source'], message: string, cause?: unknown, assetId?: string): void {
+    this.events.emit('error', { source, message, assetId, cause });
+  }
+
+  private quarantineMessage(data: unknown, errors: string[]): void {
+    const message = data && typeof data === 'object' ? data as { event_type?: unknown; asset_id?: unknown } : {};
+    const entry: QuarantinedMessage = {
+      receivedAt: this.clock.now(),
+      data,
+      eventType: typeof message.event_type === 'string' ? message.event_type : undefined,
+      assetId: typeof message.asset_id === 'string' ? message.asset_id : undefined,
+      errors,
+    };
+
+    this.quarantine.add(entry);
+    if (entry.assetId) this.health.recordQuarantined(entry.assetId);
+    this.events.emit('quarantine', entry);
+  }
+
+  private recordMessage(assetId: string, serverTimestamp?: number): void {
+    const recovered = this.health.recordMessage(assetId, serverTimestamp || undefined);
+    if (recovered) {
+      this.notifyHealth(assetId);
+    }
+  }
+
+  /**
+   * Recover feeds that went quiet while the socket still reports 'connected':
+   * resubscribe and resync stale assets, and reconnect if even that gets no
+   * answer on the connection
+   */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdogTimer = this.clock.setInterval(() => {
+      if (this.currentStatus !== 'connected') return;
+
+      const staleAfterMs = this.options.staleAfterMs;
+      if (this.health.getConnectionIdleMs() > 2 * staleAfterMs) {
+        console.warn('WebSocket silent despite resubscribing, reconnecting');
+        this.ws?.close(4000, 'Stale connection');
+        return;
+      }
+
+      const stale = this.health.detectStale(staleAfterMs);
+      if (stale.length > 0) {
+        console.warn(`No messages for ${stale.length} asset(s) in ${staleAfterMs}ms, resubscribing`);
+        this.send({ assets_ids: stale, operation: 'unsubscribe' });
+        this.send({ assets_ids: stale, operation: 'subscribe' });
+        stale.forEach(assetId => this.resync(assetId, 'stale'));
+      }
+
+      this.health.getAssetIds().forEach(assetId => this.notifyHealth(assetId));
+    }, this.options.healthCheckIntervalMs);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimer) {
+      this.clock.clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  private notifyHealth(assetId: string): void {
+    const health = this.health.getHealth(assetId);
+    if (health) {
+      this.events.emit('health', health);
+    }
+  }
+
   private startHeartbeat(): void {
-    // Send ping every 30 seconds to keep connection alive
-    this.heartbeatTimer = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    // Ping periodically to keep the connection alive
+    this.heartbeatTimer = this.clock.setInterval(() => {
+      if (this.ws && this.ws.readyState === WS_OPEN) {
         this.ws.send(JSON.stringify({ type: 'ping' }));
       }
-    }, 30000);
+    }, this.options.heartbeatIntervalMs);
   }
 
   private stopHeartbeat(): void {
     if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
+      this.clock.clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
   }
 
   private updateStatus(status: ConnectionStatus): void {
     this.currentStatus = status;
-    if (this.onStatusChange) {
-      this.onStatusChange(status);
-    }
+    this.events.emit('status', status);
+  }
+
+  /**
+   * Listen to a socket event; returns a function that stops listening
+   */
+  public on<K extends keyof OrderBookSocketEvents>(
+    event: K,
+    listener: EventListener<OrderBookSocketEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Listen to the next occurrence of a socket event only
+   */
+  public once<K extends keyof OrderBookSocketEvents>(
+    event: K,
+    listener: EventListener<OrderBookSocketEvents[K]>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Stop listening to a socket event
+   */
+  public off<K extends keyof OrderBookSocketEvents>(
+    event: K,
+    listener: EventListener<OrderBookSocketEvents[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Add assets to the subscription on the open connection
+   */
+  public subscribe(assetIds: string[]): void {
+    const added = assetIds.filter(assetId => !this.assetIds.has(assetId));
+    if (added.length === 0) return;
+
+    added.forEach(assetId => {
+      this.assetIds.add(assetId);
+      this.health.addAsset(assetId);
+    });
+    this.send({ assets_ids: added, operation: 'subscribe' });
+  }
+
+  /**
+   * Remove assets from the subscription and drop their local books
+   */
+  public unsubscribe(assetIds: string[]): void {
+    const removed = assetIds.filter(assetId => this.assetIds.has(assetId));
+    if (removed.length === 0) return;
+
+    removed.forEach(assetId => {
+      this.assetIds.delete(assetId);
+      this.books.delete(assetId);
+      this.tapes.delete(assetId);
+      this.syncStats.delete(assetId);
+      this.pendingResyncs.delete(assetId);
+      this.lastResyncAttempt.delete(assetId);
+      this.health.removeAsset(assetId);
+      this.coalescer?.clear(assetId);
+    });
+    this.send({ assets_ids: removed, operation: 'unsubscribe' });
+  }
+
+  /**
+   * Asset IDs currently subscribed on this socket
+   */
+  public getAssetIds(): string[] {
+    return [...this.assetIds];
   }
 
   /**
@@ -159,11 +858,14 @@ export class OrderBookSocket {
     this.isIntentionallyClosed = true;
     
     if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
+      this.clock.clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
     
     this.stopHeartbeat();
+    this.stopWatchdog();
+    this.stopFallback();
+    this.coalescer?.clear();
     
     if (this.ws) {
       this.ws.close(1000, 'Client disconnecting');
@@ -180,6 +882,58 @@ export class OrderBookSocket {
     return this.currentStatus;
   }
 
+  /**
+   * Get the locally maintained order book for an asset
+   */
+  public getBook(assetId: string): OrderBook | null {
+    const localBook = this.books.get(assetId);
+    return localBook?.isInitialized() ? localBook.toOrderBook() : null;
+  }
+
+  /**
+   * Messages rejected by validation, oldest first
+   */
+  public getQuarantine(): QuarantinedMessage[] {
+    return this.quarantine.getMessages();
+  }
+
+  /**
+   * Number of messages rejected since the socket was created
+   */
+  public getQuarantinedCount(): number {
+    return this.quarantine.getTotal();
+  }
+
+  /**
+   * Get the recent trades and last-trade indicator of an asset
+   */
+  public getTrades(assetId: string): TradeTapeUpdate | null {
+    return this.tapes.get(assetId)?.getUpdate() ?? null;
+  }
+
+  /**
+   * Get freshness and delivery metrics for an asset
+   */
+  public getHealth(assetId: string): FeedHealth | null {
+    return this.health.getHealth(assetId);
+  }
+
+  /**
+   * Get integrity counters for an asset's local book
+   */
+  public getSyncStats(assetId: string): BookSyncStats | null {
+    const stats = this.syncStats.get(assetId);
+    return stats ? { ...stats } : null;
+  }
+
+  /**
+   * Reload an asset's book from the REST snapshot
+   */
+  public resyncAsset(assetId: string): void {
+    this.lastResyncAttempt.delete(assetId);
+    this.resync(assetId, 'manual');
+  }
+
   /**
    * Manually trigger reconnection
    */
@@ -187,6 +941,6 @@ export class OrderBookSocket {
     this.close();
     this.isIntentionallyClosed = false;
     this.reconnectAttempts = 0;
-    setTimeout(() => this.connect(), 100);
+    this.reconnectTimer = this.clock.setTimeout(() => this.connect(), 100);
   }
 }
\ No newline at end of file
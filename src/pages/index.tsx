@@ -1,7 +1,12 @@
 // File: src/pages/index.tsx
 import React, { useState } from 'react';
 import { OrderBookProvider } from '@/contexts/OrderBookContext';
+import { sharedMarketFeed } from '@/lib/apiClient';
 import { OrderBookViewer } from '@/components/OrderBookViewer';
+import { TimeAndSales } from '@/components/TimeAndSales';
+import { UserFills } from '@/components/UserFills';
+import { AccountSetup } from '@/components/AccountSetup';
+import type { L2Credentials } from '@/types';
 
 const MarketSelector: React.FC<{ onMarketSelect: (marketId: string) => void }> = ({ onMarketSelect }) => {
   const [marketInput, setMarketInput] = useState('');
@@ -87,9 +92,19 @@ const MarketSelector: React.FC<{ onMarketSelect: (marketId: string) => void }> =
   );
 };
 
-const OrderBookPage: React.FC<{ marketId: string; onBack: () => void }> = ({ marketId, onBack }) => {
+const OrderBookPage: React.FC<{
+  marketId: string;
+  credentials: L2Credentials | null;
+  onBack: () => void;
+}> = ({ marketId, credentials, onBack }) => {
   return (
-    <OrderBookProvider marketId={marketId}>
+    // One connection and snapshot per token for all open tabs
+    <OrderBookProvider
+      marketId={marketId}
+      credentials={credentials ?? undefined}
+      feed={sharedMarketFeed}
+      initialSnapshot={false}
+    >
       <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -115,7 +130,7 @@ const OrderBookPage: React.FC<{ marketId: string; onBack: () => void }> = ({ mar
             <OrderBookViewer />
           </div>
           
-          {/* Placeholder for future components */}
+          {/* Market details placeholder and trade tape */}
           <div className="lg:col-span-4 space-y-6">
             <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
               <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
@@ -125,15 +140,10 @@ const OrderBookPage: React.FC<{ marketId: string; onBack: () => void }> = ({ mar
                 Market details will be displayed here in future updates.
               </p>
             </div>
-            
-            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
-              <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
-                Recent Trades
-              </h3>
-              <p className="text-gray-600 dark:text-gray-400">
-                Trade history will be displayed here in future updates.
-              </p>
-            </div>
+
+            <TimeAndSales />
+
+            <UserFills />
           </div>
         </div>
       </div>
@@ -143,13 +153,21 @@ const OrderBookPage: React.FC<{ marketId: string; onBack: () => void }> = ({ mar
 
 const IndexPage: React.FC = () => {
   const [selectedMarket, setSelectedMarket] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<L2Credentials | null>(null);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-end mb-6">
+          <div className="w-full max-w-sm">
+            <AccountSetup onCredentials={setCredentials} />
+          </div>
+        </div>
+
         {selectedMarket ? (
           <OrderBookPage 
             marketId={selectedMarket} 
+            credentials={credentials}
             onBack={() => setSelectedMarket(null)} 
           />
         ) : (
@@ -0,0 +1,51 @@
+// File: src/test-utils/index.ts
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+import type { ApiError } from '@/lib/errors';
+
+/**
+ * Error response from a stubbed server
+ */
+export class StubReply {
+  constructor(public readonly status: number, public readonly data: unknown) {}
+}
+
+export const reply = (status: number, data: unknown) => new StubReply(status, data);
+
+/**
+ * Adapter standing in for the CLOB, recording what it receives. `respond`
+ * returns the body of a 200 response, or a `reply(status, data)` to fail.
+ */
+export const stubServer = (respond: (config: InternalAxiosRequestConfig) => unknown) => {
+  const received: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    received.push(config);
+    const answer = respond(config);
+    if (answer instanceof StubReply) {
+      const response = { data: answer.data, status: answer.status, statusText: '', headers: {}, config };
+      throw new AxiosError(`HTTP ${answer.status}`, 'ERR_BAD_REQUEST', config, null, response);
+    }
+    return { data: answer, status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return { adapter, received };
+};
+
+/**
+ * Responder answering by "METHOD url", with a 404 for anything else
+ */
+export const routes = (table: Record<string, unknown>) => (config: InternalAxiosRequestConfig) => {
+  const route = `${config.method?.toUpperCase()} ${config.url}`;
+  return route in table ? table[route] : reply(404, { error: 'not found' });
+};
+
+/**
+ * The error a request is expected to reject with
+ */
+export const failure = (request: Promise<unknown>): Promise<ApiError> =>
+  request.then(
+    () => {
+      throw new Error('Expected the request to fail');
+    },
+    (error: ApiError) => error
+  );
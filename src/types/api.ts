@@ -114,6 +114,8 @@ export interface MarketApiResponse {
   icon: string;
   /** FPMM contract address */
   fpmm: string;
+  /** Whether the market settles through the negative-risk exchange */
+  neg_risk?: boolean;
 }
 
 /**
@@ -314,6 +316,7 @@ export type WebSocketMessageType =
   | 'book'
   | 'price_change'
   | 'tick_size_change'
+  | 'last_trade_price'
   | 'trade'
   | 'order'
   | 'ping'
@@ -344,8 +347,10 @@ export interface WebSocketSubscription {
   markets?: string[];
   /** Asset/token IDs (for market channel) */
   assets_ids?: string[];
-  /** Channel type */
-  type: 'user' | 'market';
+  /** Channel type (initial subscription only) */
+  type?: 'user' | 'market';
+  /** Add or remove assets on an already open connection */
+  operation?: 'subscribe' | 'unsubscribe';
 }
 
 /**
@@ -386,6 +391,48 @@ export interface WSPriceChangeMessage {
   side: 'buy' | 'sell';
   /** Timestamp */
   timestamp: string;
+  /** Hash summary of the book after this change (if provided) */
+  hash?: string;
+}
+
+/**
+ * WebSocket tick size change message
+ */
+export interface WSTickSizeChangeMessage {
+  /** Event type */
+  event_type: 'tick_size_change';
+  /** Asset ID */
+  asset_id: string;
+  /** Market condition ID */
+  market: string;
+  /** Previous minimum tick size */
+  old_tick_size: string;
+  /** New minimum tick size */
+  new_tick_size: string;
+  /** Timestamp */
+  timestamp: string;
+}
+
+/**
+ * WebSocket last trade price message (market channel)
+ */
+export interface WSLastTradePriceMessage {
+  /** Event type */
+  event_type: 'last_trade_price';
+  /** Asset ID */
+  asset_id: string;
+  /** Market condition ID */
+  market: string;
+  /** Trade price */
+  price: string;
+  /** Trade size */
+  size: string;
+  /** Aggressor side */
+  side: 'BUY' | 'SELL';
+  /** Fee rate in basis points */
+  fee_rate_bps: string;
+  /** Timestamp */
+  timestamp: string;
 }
 
 /**
@@ -428,6 +475,40 @@ export interface WSTradeMessage {
   type: 'TRADE';
 }
 
+/**
+ * WebSocket order message (user channel)
+ */
+export interface WSOrderMessage {
+  /** Event type */
+  event_type: 'order';
+  /** Order ID */
+  id: string;
+  /** Owner API key */
+  owner: string;
+  /** Market condition ID */
+  market: string;
+  /** Asset ID */
+  asset_id: string;
+  /** Buy or sell */
+  side: 'BUY' | 'SELL';
+  /** API key of the order owner */
+  order_owner: string;
+  /** Size when the order was placed */
+  original_size: string;
+  /** Size matched so far */
+  size_matched: string;
+  /** Limit price */
+  price: string;
+  /** Trade IDs this order took part in */
+  associate_trades: string[] | null;
+  /** Outcome */
+  outcome: string;
+  /** What happened to the order */
+  type: 'PLACEMENT' | 'UPDATE' | 'CANCELLATION';
+  /** Timestamp */
+  timestamp: string;
+}
+
 /**
  * Base WebSocket message structure
  */
@@ -486,6 +567,75 @@ export interface WebSocketError {
   details?: Record<string, unknown>;
 }
 
+// =============================================================================
+// ORDER API RESPONSES
+// =============================================================================
+
+/**
+ * An order of the authenticated account, from GET /data/order/:id and
+ * GET /data/orders
+ */
+export interface OpenOrderApiResponse {
+  /** Order ID (hash) */
+  id: string;
+  /** e.g. LIVE, MATCHED, CANCELED */
+  status: string;
+  /** API key of the owner */
+  owner: string;
+  /** Address funding the order */
+  maker_address: string;
+  /** Market condition ID */
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  /** Size when the order was placed */
+  original_size: string;
+  /** Size matched so far */
+  size_matched: string;
+  price: string;
+  outcome: string;
+  /** Unix seconds, "0" for none */
+  expiration: string;
+  /** GTC, GTD, FOK or FAK */
+  order_type: string;
+  /** Trade IDs this order took part in */
+  associate_trades: string[] | null;
+  /** Unix seconds */
+  created_at: number;
+}
+
+/**
+ * A page of GET /data/orders
+ */
+export interface OpenOrdersApiResponse {
+  data: OpenOrderApiResponse[];
+  /** Cursor of the next page; "LTE=" after the last */
+  next_cursor: string;
+  limit?: number;
+  count?: number;
+}
+
+// =============================================================================
+// AUTH API RESPONSES
+// =============================================================================
+
+/**
+ * API credentials returned when an API key is created or derived
+ */
+export interface ApiKeyCredsResponse {
+  apiKey: string;
+  /** Base64url HMAC secret */
+  secret: string;
+  passphrase: string;
+}
+
+/**
+ * API keys of the authenticated account
+ */
+export interface ApiKeysResponse {
+  apiKeys: string[];
+}
+
 // =============================================================================
 // MARKET STATISTICS API RESPONSES
 // =============================================================================
@@ -634,6 +784,29 @@ export interface RateLimitInfo {
   resetIn: number;
   /** Whether rate limit is exceeded */
   exceeded: boolean;
+  /** Requests waiting in the client-side queue */
+  queued: number;
+}
+
+/**
+ * Circuit breaker state: closed lets requests through, open fails them fast,
+ * half-open lets a probe through to test recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker state of one endpoint group
+ */
+export interface CircuitBreakerStatus {
+  /** Endpoint group the breaker guards */
+  key: string;
+  state: CircuitState;
+  /** Consecutive failures counted so far */
+  failures: number;
+  /** When the breaker last opened */
+  openedAt: number | null;
+  /** When an open breaker lets the next probe through */
+  nextProbeAt: number | null;
 }
 
 /**
@@ -704,6 +877,7 @@ export const MarketApiResponseSchema = z.object({
   seconds_delay: z.number(),
   icon: z.string(),
   fpmm: z.string(),
+  neg_risk: z.boolean().optional(),
 });
 
 /**
@@ -757,12 +931,28 @@ export const TradeApiResponseSchema = z.object({
   type: z.string(),
 });
 
+/**
+ * Schema for validating created or derived API credentials
+ */
+export const ApiKeyCredsResponseSchema = z.object({
+  apiKey: z.string().min(1),
+  secret: z.string().min(1),
+  passphrase: z.string().min(1),
+});
+
+/**
+ * Schema for validating the list of API keys
+ */
+export const ApiKeysResponseSchema = z.object({
+  apiKeys: z.array(z.string()),
+});
+
 /**
  * Schema for validating WebSocket messages
  */
 export const WebSocketMessageSchema = z.object({
   type: z.enum([
-    'book', 'price_change', 'tick_size_change', 'trade', 'order',
+    'book', 'price_change', 'tick_size_change', 'last_trade_price', 'trade', 'order',
     'ping', 'pong', 'error', 'connected', 'disconnected'
   ]),
   data: z.unknown(),
@@ -771,6 +961,95 @@ export const WebSocketMessageSchema = z.object({
   sequence: z.number().optional(),
 });
 
+// Prices, sizes and tick sizes arrive as non-negative decimal strings
+const DecimalStringSchema = z.string().regex(/^\d+(\.\d+)?$/, 'Expected a decimal string');
+// Millisecond timestamps arrive as integer strings
+const TimestampStringSchema = z.string().regex(/^\d+$/, 'Expected an integer timestamp');
+const SideSchema = z.string().regex(/^(buy|sell)$/i, 'Expected buy or sell');
+
+const OrderSummarySchema = z.object({
+  price: DecimalStringSchema,
+  size: DecimalStringSchema,
+});
+
+/**
+ * Schema for market channel `book` messages
+ */
+export const WSBookMessageSchema = z.object({
+  event_type: z.literal('book'),
+  asset_id: z.string().min(1),
+  market: z.string(),
+  timestamp: TimestampStringSchema,
+  hash: z.string(),
+  buys: z.array(OrderSummarySchema),
+  sells: z.array(OrderSummarySchema),
+});
+
+/**
+ * Schema for market channel `price_change` messages
+ */
+export const WSPriceChangeMessageSchema = z.object({
+  event_type: z.literal('price_change'),
+  asset_id: z.string().min(1),
+  market: z.string(),
+  price: DecimalStringSchema,
+  size: DecimalStringSchema,
+  side: SideSchema,
+  timestamp: TimestampStringSchema,
+  hash: z.string().optional(),
+});
+
+/**
+ * Schema for market channel `tick_size_change` messages
+ */
+export const WSTickSizeChangeMessageSchema = z.object({
+  event_type: z.literal('tick_size_change'),
+  asset_id: z.string().min(1),
+  market: z.string(),
+  old_tick_size: DecimalStringSchema,
+  new_tick_size: DecimalStringSchema.refine(value => Number(value) > 0, 'Tick size must be positive'),
+  timestamp: TimestampStringSchema,
+});
+
+/**
+ * Schema for market channel `last_trade_price` messages
+ */
+export const WSLastTradePriceMessageSchema = z.object({
+  event_type: z.literal('last_trade_price'),
+  asset_id: z.string().min(1),
+  market: z.string(),
+  price: DecimalStringSchema,
+  size: DecimalStringSchema,
+  side: SideSchema,
+  fee_rate_bps: z.string().optional(),
+  timestamp: TimestampStringSchema,
+});
+
+/**
+ * Schema for `trade` messages, checked on the fields the trade tape uses
+ */
+export const WSTradeMessageSchema = z.object({
+  event_type: z.literal('trade'),
+  asset_id: z.string().min(1),
+  id: z.string().min(1),
+  market: z.string(),
+  price: DecimalStringSchema,
+  size: DecimalStringSchema,
+  side: SideSchema,
+  timestamp: TimestampStringSchema,
+});
+
+/**
+ * Schema for every event the market channel applies, by `event_type`
+ */
+export const MarketChannelMessageSchema = z.discriminatedUnion('event_type', [
+  WSBookMessageSchema,
+  WSPriceChangeMessageSchema,
+  WSTickSizeChangeMessageSchema,
+  WSLastTradePriceMessageSchema,
+  WSTradeMessageSchema,
+]);
+
 /**
  * Schema for validating API error responses
  */
@@ -783,6 +1062,37 @@ export const ApiErrorResponseSchema = z.object({
   requestId: z.string().optional(),
 });
 
+/**
+ * Schema for validating orders of the authenticated account
+ */
+export const OpenOrderApiResponseSchema = z.object({
+  id: z.string(),
+  status: z.string(),
+  owner: z.string(),
+  maker_address: z.string(),
+  market: z.string(),
+  asset_id: z.string(),
+  side: z.enum(['BUY', 'SELL']),
+  original_size: DecimalStringSchema,
+  size_matched: DecimalStringSchema,
+  price: DecimalStringSchema,
+  outcome: z.string(),
+  expiration: z.string(),
+  order_type: z.string(),
+  associate_trades: z.array(z.string()).nullable(),
+  created_at: z.number(),
+});
+
+/**
+ * Schema for validating pages of open orders
+ */
+export const OpenOrdersApiResponseSchema = z.object({
+  data: z.array(OpenOrderApiResponseSchema),
+  next_cursor: z.string(),
+  limit: z.number().optional(),
+  count: z.number().optional(),
+});
+
 // =============================================================================
 // TYPE GUARDS - UPDATED
 // =============================================================================
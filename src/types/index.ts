@@ -24,6 +24,15 @@ export type {
   TransformOptions,
   TransformResult,
   TrendDirection,
+  LastTrade,
+  TradePrint,
+  TradeTapeUpdate,
+  TickSizeChange,
+  ResyncReason,
+  BookSyncStats,
+  FeedHealth,
+  SocketErrorSource,
+  SocketErrorEvent,
 } from './orderbook';
 
 // API types - UPDATED with new corrected types
@@ -52,7 +61,14 @@ export type {
   WSAuth,                     
   WSBookMessage,              
   WSPriceChangeMessage,       
+  WSTickSizeChangeMessage,
+  WSLastTradePriceMessage,
+  WSOrderMessage,
   WSTradeMessage,             
+  OpenOrderApiResponse,
+  OpenOrdersApiResponse,
+  ApiKeyCredsResponse,
+  ApiKeysResponse,
   MarketStatsResponse,
   ListQueryParams,
   MarketListParams,
@@ -60,6 +76,8 @@ export type {
   OrderBookDepthParams,
   BookParams,                 
   RateLimitInfo,
+  CircuitState,
+  CircuitBreakerStatus,
   ApiClientConfig,
 } from './api';
 
@@ -80,6 +98,35 @@ export type {
   RecentMarketActivity,
 } from './market';
 
+// User (authenticated account) types
+export type {
+  ApiCredentials,
+  L2Credentials,
+  UserOrderEventType,
+  UserOrder,
+  OpenOrderStatus,
+  OpenOrder,
+  OpenOrdersParams,
+  OpenOrdersPage,
+  UserOrderEvent,
+  UserTradeStatus,
+  UserTrade,
+} from './user';
+
+// Order placement types
+export type {
+  OrderSide,
+  OrderType,
+  SignatureType,
+  LimitOrderArgs,
+  OrderMarketRules,
+  SignedOrder,
+  PostOrderRequest,
+  PostOrderResponse,
+  CancelOrdersResponse,
+  CancelMarketOrdersParams,
+} from './order';
+
 // State types - COMMENTED OUT until properly implemented
 // NOTE: These exports are causing TypeScript errors because the types don't exist
 // or aren't properly exported from ./state. Uncomment when they're implemented.
@@ -126,10 +173,27 @@ export {
   MarketApiResponseSchema,
   OrderBookApiResponseSchema,
   TradeApiResponseSchema,
+  ApiKeyCredsResponseSchema,
+  ApiKeysResponseSchema,
+  OpenOrderApiResponseSchema,
+  OpenOrdersApiResponseSchema,
   WebSocketMessageSchema,
+  WSBookMessageSchema,
+  WSPriceChangeMessageSchema,
+  WSTickSizeChangeMessageSchema,
+  WSLastTradePriceMessageSchema,
+  WSTradeMessageSchema,
+  MarketChannelMessageSchema,
   ApiErrorResponseSchema,
 } from './api';
 
+export {
+  SignedOrderSchema,
+  PostOrderRequestSchema,
+  PostOrderResponseSchema,
+  CancelOrdersResponseSchema,
+} from './order';
+
 export {
   MarketStatusSchema,
   MarketOutcomeTypeSchema,
@@ -0,0 +1,175 @@
+// File: src/types/order.ts
+import { z } from 'zod';
+import Decimal from 'decimal.js';
+
+// =============================================================================
+// ORDER PLACEMENT TYPES
+// =============================================================================
+
+/**
+ * Side of an order, as the CLOB spells it
+ */
+export type OrderSide = 'BUY' | 'SELL';
+
+/**
+ * Time in force: good-til-cancelled, good-til-date, fill-or-kill, fill-and-kill
+ */
+export type OrderType = 'GTC' | 'GTD' | 'FOK' | 'FAK';
+
+/**
+ * How the exchange verifies the order signature
+ */
+export type SignatureType =
+  | 0   // EOA: the signer holds the funds
+  | 1   // Polymarket proxy wallet owned by the signer
+  | 2;  // Gnosis Safe owned by the signer
+
+/**
+ * What the caller specifies for a limit order
+ */
+export interface LimitOrderArgs {
+  /** ERC1155 token ID of the outcome */
+  tokenId: string;
+  side: OrderSide;
+  /** Limit price in USDC per share, on the market's tick grid */
+  price: Decimal.Value;
+  /** Shares, at most two decimals */
+  size: Decimal.Value;
+  /** Unix time in seconds after which the order expires; 0 (default) for never, required for GTD */
+  expiration?: number;
+  feeRateBps?: number;
+  /** Exchange nonce, for cancelling all orders of a nonce on-chain */
+  nonce?: number;
+  /** Counterparty; the zero address (default) for a public order */
+  taker?: string;
+}
+
+/**
+ * Constraints of a market that orders must respect
+ */
+export interface OrderMarketRules {
+  minimumOrderSize: Decimal.Value;
+  minimumTickSize: Decimal.Value;
+  /** Negative-risk markets settle through a different exchange contract */
+  negRisk?: boolean;
+}
+
+/**
+ * An order signed by its maker, as posted to the CLOB. Integers are
+ * decimal strings; amounts are in 6-decimal base units.
+ */
+export interface SignedOrder {
+  salt: number;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  expiration: string;
+  nonce: string;
+  feeRateBps: string;
+  side: OrderSide;
+  signatureType: SignatureType;
+  signature: string;
+}
+
+/**
+ * Body of POST /order
+ */
+export interface PostOrderRequest {
+  order: SignedOrder;
+  /** API key of the order's owner */
+  owner: string;
+  orderType: OrderType;
+}
+
+/**
+ * Outcome of posting an order
+ */
+export interface PostOrderResponse {
+  success: boolean;
+  /** Why the order was rejected; empty on success */
+  errorMsg: string;
+  orderID: string;
+  /** e.g. live, matched, delayed */
+  status?: string;
+  /** Settlement transactions of an immediately matched order */
+  transactionsHashes?: string[];
+  takingAmount?: string;
+  makingAmount?: string;
+}
+
+/**
+ * Outcome of a cancellation
+ */
+export interface CancelOrdersResponse {
+  /** IDs of the orders cancelled */
+  canceled: string[];
+  /** Reason per order ID that could not be cancelled */
+  not_canceled: Record<string, string>;
+}
+
+/**
+ * Body of DELETE /cancel-market-orders; either field narrows the cancellation
+ */
+export interface CancelMarketOrdersParams {
+  /** Condition ID */
+  market?: string;
+  asset_id?: string;
+}
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const integerString = z.string().regex(/^\d+$/, 'Expected an unsigned integer string');
+
+/**
+ * Schema for validating signed orders before they are posted
+ */
+export const SignedOrderSchema = z.object({
+  salt: z.number().int().nonnegative(),
+  maker: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  signer: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  taker: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  tokenId: integerString,
+  makerAmount: integerString,
+  takerAmount: integerString,
+  expiration: integerString,
+  nonce: integerString,
+  feeRateBps: integerString,
+  side: z.enum(['BUY', 'SELL']),
+  signatureType: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/),
+});
+
+/**
+ * Schema for validating POST /order bodies
+ */
+export const PostOrderRequestSchema = z.object({
+  order: SignedOrderSchema,
+  owner: z.string().min(1),
+  orderType: z.enum(['GTC', 'GTD', 'FOK', 'FAK']),
+});
+
+/**
+ * Schema for validating POST /order responses
+ */
+export const PostOrderResponseSchema = z.object({
+  success: z.boolean(),
+  errorMsg: z.string(),
+  orderID: z.string(),
+  status: z.string().optional(),
+  transactionsHashes: z.array(z.string()).optional(),
+  takingAmount: z.string().optional(),
+  makingAmount: z.string().optional(),
+});
+
+/**
+ * Schema for validating cancellation responses
+ */
+export const CancelOrdersResponseSchema = z.object({
+  canceled: z.array(z.string()),
+  not_canceled: z.record(z.string()),
+});
@@ -1,6 +1,7 @@
 // File: src/types/orderbook.ts
 import Decimal from 'decimal.js';
 import { z } from 'zod';
+import type { OrderBookApiResponse } from './api';
 
 /**
  * Raw API response shape for a single order level from Polymarket
@@ -66,12 +67,20 @@ export interface OrderBook {
   lastUpdateId: number;
   /** Timestamp when this order book snapshot was created */
   timestamp: number;
+  /** Server hash summarizing the book contents (if known) */
+  hash?: string;
+  /** Asset (token) ID this book belongs to */
+  assetId?: string;
+  /** Market condition ID */
+  market?: string;
   /** Last traded price (if available) */
   lastPrice?: Decimal;
   /** 24-hour price change */
   priceChange24h?: Decimal;
   /** 24-hour volume */
   volume24h?: Decimal;
+  /** REST response the book was built from, exactly as the server sent it, for hash checks */
+  summary?: OrderBookApiResponse;
 }
 
 /**
@@ -111,6 +120,100 @@ export interface OrderBookUpdate {
   type: 'snapshot' | 'delta';
   /** Market ID this update applies to */
   marketId: string;
+  /** Number of feed updates folded into this one, when updates are coalesced */
+  coalescedCount?: number;
+}
+
+/**
+ * Minimum tick size change for a market
+ */
+export interface TickSizeChange {
+  /** Asset (token) ID whose tick size changed */
+  assetId: string;
+  /** Market condition ID */
+  market: string;
+  /** Previous minimum tick size */
+  oldTickSize: Decimal;
+  /** New minimum tick size */
+  newTickSize: Decimal;
+  /** Timestamp of the change */
+  timestamp: number;
+}
+
+/**
+ * Why a book was reloaded from the REST snapshot
+ */
+export type ResyncReason = 'hash_mismatch' | 'sequence_gap' | 'stale' | 'manual';
+
+/**
+ * Integrity state of a locally maintained book
+ */
+export interface BookSyncStats {
+  /** Asset (token) ID the stats belong to */
+  assetId: string;
+  /** Current state of the local book */
+  state: 'synced' | 'resyncing' | 'unsynced';
+  /** Number of server hashes checked */
+  hashChecks: number;
+  /** Number of server hashes that did not match the local book */
+  hashMismatches: number;
+  /** Number of sequence gaps detected */
+  gaps: number;
+  /** Number of completed REST resyncs */
+  resyncs: number;
+  /** Number of REST resyncs that failed */
+  failedResyncs: number;
+  /** Timestamp of the last completed resync */
+  lastResyncAt?: number;
+  /** Reason of the last resync attempt */
+  lastResyncReason?: ResyncReason;
+}
+
+/**
+ * Freshness and delivery metrics of a subscription
+ */
+export interface FeedHealth {
+  /** Asset (token) ID the metrics belong to */
+  assetId: string;
+  /** Messages received for the asset since it was subscribed */
+  messageCount: number;
+  /** Messages per second over the recent rate window */
+  messageRate: number;
+  /** Local receive time of the last message */
+  lastMessageAt?: number;
+  /** Time since the last message (or since subscribing, before the first one) */
+  lastMessageAgeMs: number;
+  /** Local receive time minus the server timestamp of the last message */
+  serverLagMs?: number;
+  /** Number of times the connection was re-established */
+  reconnects: number;
+  /** Total time the connection has been down, including the current outage */
+  disconnectedMs: number;
+  /** Whether the watchdog considers the asset's feed stale */
+  stale: boolean;
+  /** Number of times the watchdog had to recover the feed */
+  staleRecoveries: number;
+  /** Messages for the asset rejected by schema validation */
+  quarantined: number;
+}
+
+/**
+ * Where an order book socket error came from
+ */
+export type SocketErrorSource = 'connection' | 'message' | 'resync' | 'listener';
+
+/**
+ * Error reported by an order book socket
+ */
+export interface SocketErrorEvent {
+  /** Where the error came from */
+  source: SocketErrorSource;
+  /** Human readable description */
+  message: string;
+  /** Asset the error concerns, if any */
+  assetId?: string;
+  /** Underlying error or event */
+  cause?: unknown;
 }
 
 /**
@@ -205,6 +308,38 @@ export interface LastTrade {
   priceChangePercent: Decimal;
 }
 
+/**
+ * A single trade print on the tape
+ */
+export interface TradePrint {
+  /** Trade ID (only present on `trade` events) */
+  id?: string;
+  /** Asset (token) ID that traded */
+  assetId: string;
+  /** Market condition ID */
+  market: string;
+  /** Execution price */
+  price: Decimal;
+  /** Executed size */
+  size: Decimal;
+  /** Aggressor side */
+  side: 'buy' | 'sell';
+  /** Execution timestamp */
+  timestamp: number;
+}
+
+/**
+ * State of an asset's trade tape after a new print
+ */
+export interface TradeTapeUpdate {
+  /** The print that was just added */
+  trade: TradePrint;
+  /** Last trade derived from this print and the one before it */
+  lastTrade: LastTrade;
+  /** Recent prints, newest first */
+  recentTrades: TradePrint[];
+}
+
 /**
  * Side of the order book (bids or asks)
  */
@@ -316,6 +451,7 @@ export const OrderBookUpdateSchema = z.object({
   timestamp: z.number(),
   type: z.enum(['snapshot', 'delta']),
   marketId: z.string(),
+  coalescedCount: z.number().int().positive().optional(),
 });
 
 /**
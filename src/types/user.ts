@@ -0,0 +1,148 @@
+// File: src/types/user.ts
+import Decimal from 'decimal.js';
+
+/**
+ * L2 API credentials of a CLOB account
+ */
+export interface ApiCredentials {
+  /** API key */
+  apiKey: string;
+  /** Base64 API secret */
+  secret: string;
+  /** API passphrase */
+  passphrase: string;
+}
+
+/**
+ * API credentials together with the address of the account they belong to,
+ * as needed to sign L2 requests
+ */
+export interface L2Credentials extends ApiCredentials {
+  /** Address of the account (sent as POLY_ADDRESS) */
+  address: string;
+}
+
+/**
+ * What happened to one of the account's orders
+ */
+export type UserOrderEventType = 'placement' | 'update' | 'cancellation';
+
+/**
+ * An order owned by the authenticated account
+ */
+export interface UserOrder {
+  /** Order ID */
+  id: string;
+  /** Market condition ID */
+  market: string;
+  /** Asset (token) ID */
+  assetId: string;
+  /** Buy or sell */
+  side: 'buy' | 'sell';
+  /** Limit price */
+  price: Decimal;
+  /** Size when the order was placed */
+  originalSize: Decimal;
+  /** Size matched so far */
+  sizeMatched: Decimal;
+  /** Size still resting on the book */
+  remainingSize: Decimal;
+  /** Outcome the asset represents */
+  outcome: string;
+  /** Timestamp of the latest event for this order */
+  timestamp: number;
+}
+
+/**
+ * Lifecycle state of an order on the CLOB
+ */
+export type OpenOrderStatus =
+  | 'live'        // Resting on the book
+  | 'delayed'     // Held back by the market's matching delay
+  | 'unmatched'   // Marketable but not matched yet
+  | 'matched'     // Fully matched
+  | 'cancelled'
+  | 'unknown';    // A status this client does not know yet
+
+/**
+ * An order of the authenticated account as queried over REST
+ */
+export interface OpenOrder extends UserOrder {
+  status: OpenOrderStatus;
+  /** API key of the owner */
+  owner: string;
+  /** Address funding the order */
+  makerAddress: string;
+  /** GTC, GTD, FOK or FAK */
+  orderType: string;
+  /** Expiry in milliseconds, or null for none */
+  expiration: number | null;
+  /** Trade IDs this order took part in */
+  associateTrades: string[];
+  /** Creation time in milliseconds */
+  createdAt: number;
+}
+
+/**
+ * Filters of an open orders query
+ */
+export interface OpenOrdersParams {
+  /** Market condition ID */
+  market?: string;
+  /** Asset (token) ID */
+  assetId?: string;
+  /** Only this order */
+  id?: string;
+  /** Cursor of the page to fetch, from a previous page */
+  nextCursor?: string;
+}
+
+/**
+ * A page of open orders
+ */
+export interface OpenOrdersPage {
+  orders: OpenOrder[];
+  /** Cursor of the next page, or null after the last */
+  nextCursor: string | null;
+}
+
+/**
+ * Order placement, update or cancellation on the user channel
+ */
+export interface UserOrderEvent {
+  type: UserOrderEventType;
+  order: UserOrder;
+}
+
+/**
+ * Settlement status of a trade
+ */
+export type UserTradeStatus = 'MATCHED' | 'MINED' | 'CONFIRMED' | 'RETRYING' | 'FAILED';
+
+/**
+ * A fill involving one of the account's orders
+ */
+export interface UserTrade {
+  /** Trade ID */
+  id: string;
+  /** Market condition ID */
+  market: string;
+  /** Asset (token) ID we traded */
+  assetId: string;
+  /** Our side */
+  side: 'buy' | 'sell';
+  /** Our execution price */
+  price: Decimal;
+  /** Size we filled */
+  size: Decimal;
+  /** Settlement status */
+  status: UserTradeStatus;
+  /** Taker order ID */
+  takerOrderId: string;
+  /** Our order IDs on the maker side of the trade */
+  makerOrderIds: string[];
+  /** Outcome the asset represents */
+  outcome: string;
+  /** Match timestamp */
+  timestamp: number;
+}